@@ -1,13 +1,23 @@
 import type { Plugin } from "@opencode-ai/plugin";
 
+import { sweepStagingPaths } from "./lib/inventory";
+import { resolveCloneRoot } from "./lib/paths";
 import { repoEnsureLocalTool } from "./tools/repo-ensure-local";
+import { repoListLocalTool } from "./tools/repo-list-local";
+import { repoRemoveLocalTool } from "./tools/repo-remove-local";
 
-export const RepoLocalPlugin: Plugin = () => {
-  return Promise.resolve({
+export const RepoLocalPlugin: Plugin = async () => {
+  await resolveCloneRoot()
+    .then(sweepStagingPaths)
+    .catch(() => []);
+
+  return {
     tool: {
       repo_ensure_local: repoEnsureLocalTool,
+      repo_list_local: repoListLocalTool,
+      repo_remove_local: repoRemoveLocalTool,
     },
-  });
+  };
 };
 
 export default RepoLocalPlugin;
@@ -0,0 +1,16 @@
+import { RepoPluginError } from "./errors";
+
+export function assertKnownArgs(
+  args: object | undefined,
+  allowedKeys: ReadonlySet<string>
+): void {
+  const extraKeys = Object.keys(args ?? {}).filter(
+    (key) => !allowedKeys.has(key)
+  );
+  if (extraKeys.length > 0) {
+    throw new RepoPluginError(
+      "INVALID_ARGS",
+      `Unknown arguments: ${extraKeys.join(", ")}`
+    );
+  }
+}
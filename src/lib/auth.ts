@@ -1,4 +1,5 @@
 import { RepoPluginError } from "./errors";
+import { toHttpsCloneUrl, toSshCloneUrl } from "./hosts";
 import type { AuthMode, ParsedRepoUrl } from "./types";
 
 const AUTH_MODES: ReadonlySet<string> = new Set(["auto", "https", "ssh"]);
@@ -10,17 +11,11 @@ export interface RepoRemotePlan {
 }
 
 function toHttpsUrl(parsedRepo: ParsedRepoUrl): string {
-  const canonicalPath = parsedRepo.pathSegments.join("/");
-  return `https://${parsedRepo.host}/${canonicalPath}.git`;
+  return toHttpsCloneUrl(parsedRepo.host, parsedRepo.pathSegments);
 }
 
 function toSshUrl(parsedRepo: ParsedRepoUrl): string | null {
-  if (parsedRepo.host.includes(":")) {
-    return null;
-  }
-
-  const canonicalPath = parsedRepo.pathSegments.join("/");
-  return `git@${parsedRepo.host}:${canonicalPath}.git`;
+  return toSshCloneUrl(parsedRepo.host, parsedRepo.pathSegments);
 }
 
 export function normalizeAuthMode(value: string | undefined): AuthMode {
@@ -0,0 +1,116 @@
+import { RepoPluginError } from "./errors";
+import { detectHostKind } from "./hosts";
+import type {
+  ParsedRepoUrl,
+  RepoChangeRequestKind,
+  RepoChangeRequestRef,
+} from "./types";
+import { parseRepoUrl } from "./url";
+
+const CHANGE_REQUEST_REF_PATTERN =
+  /^(?<form>pr|pull|mr|merge-requests?)[:/](?<number>\d+)(?:\/head)?$/i;
+const MERGE_REQUEST_FORMS: ReadonlySet<string> = new Set([
+  "mr",
+  "merge-request",
+  "merge-requests",
+]);
+const HTTP_OR_HTTPS_PATTERN = /^https?:\/\//i;
+// Request heads are kept outside refs/remotes, where `fetch --prune` would
+// delete them, and count as pushed for the unpushed-commit checks.
+export const CHANGE_REQUEST_REF_NAMESPACE = "refs/opencode";
+
+// mergeRef is the host's trial merge of the request into its target branch;
+// its first parent is the target branch tip. Hosts skip it on conflicts.
+export interface ChangeRequestTarget extends RepoChangeRequestRef {
+  remoteRef: string;
+  mergeRef: string;
+  localBranch: string;
+  trackingRef: string;
+  mergeTrackingRef: string;
+}
+
+function parseChangeRequestUrl(
+  ref: string,
+  repo: ParsedRepoUrl
+): RepoChangeRequestRef | null {
+  const parsed = parseRepoUrl(ref, false);
+  if (!parsed.changeRequest) {
+    return null;
+  }
+
+  if (parsed.key !== repo.key) {
+    throw new RepoPluginError(
+      "INVALID_ARGS",
+      "ref points at a pull request in a different repository",
+      `ref_repo=${parsed.canonicalUrl}\nrepo=${repo.canonicalUrl}`
+    );
+  }
+
+  return parsed.changeRequest;
+}
+
+// Accepts pr:123, pull/123, mr:45, merge-requests/45 and pull/merge request
+// web URLs of the same repository.
+export function parseChangeRequestRef(
+  ref: string,
+  repo: ParsedRepoUrl
+): RepoChangeRequestRef | null {
+  if (HTTP_OR_HTTPS_PATTERN.test(ref)) {
+    return parseChangeRequestUrl(ref, repo);
+  }
+
+  const groups = CHANGE_REQUEST_REF_PATTERN.exec(ref)?.groups;
+  if (!(groups?.form && groups.number)) {
+    return null;
+  }
+
+  return {
+    kind: MERGE_REQUEST_FORMS.has(groups.form.toLowerCase())
+      ? "merge_request"
+      : "pull_request",
+    number: Number(groups.number),
+  };
+}
+
+function resolveHostKind(
+  request: RepoChangeRequestRef,
+  host: string
+): RepoChangeRequestKind {
+  switch (detectHostKind(host)) {
+    case "github":
+      return "pull_request";
+    case "gitlab":
+      return "merge_request";
+    case "generic":
+      return request.kind;
+    default:
+      throw new RepoPluginError(
+        "INVALID_ARGS",
+        `Pull request refs cannot be fetched from ${host}`,
+        "Check out the source branch of the pull request by name instead"
+      );
+  }
+}
+
+export function resolveChangeRequestTarget(
+  request: RepoChangeRequestRef,
+  host: string
+): ChangeRequestTarget {
+  const kind = resolveHostKind(request, host);
+  const { number } = request;
+  const localBranch =
+    kind === "merge_request" ? `mr/${number}` : `pr/${number}`;
+  const remotePrefix =
+    kind === "merge_request"
+      ? `refs/merge-requests/${number}`
+      : `refs/pull/${number}`;
+  return {
+    kind,
+    number,
+    remoteRef: `${remotePrefix}/head`,
+    mergeRef: `${remotePrefix}/merge`,
+    localBranch,
+    trackingRef: `${CHANGE_REQUEST_REF_NAMESPACE}/${localBranch}`,
+    mergeTrackingRef: `${CHANGE_REQUEST_REF_NAMESPACE}/${localBranch}-merge`,
+  };
+}
@@ -0,0 +1,176 @@
+import { readFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { RepoPluginError } from "./errors";
+import { detectHostKind, type RepoHostKind } from "./hosts";
+import { registerSecret } from "./redact";
+
+export interface HostToken {
+  host: string;
+  username: string;
+  token: string;
+}
+
+interface TokenEntry {
+  token: string;
+  username?: string;
+}
+
+const TOKEN_ENV_PREFIX = "OPENCODE_REPO_TOKEN_";
+const TOKEN_VALUE_ENV_PREFIX = "OPENCODE_REPO_CREDENTIAL_TOKEN_";
+const TOKENS_FILE_RELATIVE_PATH =
+  ".config/opencode/opencode-repo-local/tokens.json";
+const TOKEN_USERNAMES: Readonly<Record<RepoHostKind, string>> = {
+  github: "x-access-token",
+  gitlab: "oauth2",
+  bitbucket: "x-token-auth",
+  azure: "oauth2",
+  generic: "oauth2",
+};
+
+function resolveTokensPath(): string {
+  const fromEnv = process.env.OPENCODE_REPO_TOKENS_PATH?.trim();
+  if (fromEnv) {
+    return path.resolve(fromEnv);
+  }
+
+  return path.join(os.homedir(), TOKENS_FILE_RELATIVE_PATH);
+}
+
+function toTokenEntry(value: unknown): TokenEntry | null {
+  if (typeof value === "string") {
+    return value.trim() ? { token: value.trim() } : null;
+  }
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const { token, username } = value as Record<string, unknown>;
+  if (typeof token !== "string" || !token.trim()) {
+    return null;
+  }
+
+  return {
+    token: token.trim(),
+    username: typeof username === "string" ? username.trim() : undefined,
+  };
+}
+
+// Maps host to either a token string or `{ "token": ..., "username": ... }`.
+export function parseTokensFile(
+  content: string
+): Map<string, TokenEntry> | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return null;
+  }
+
+  const entries = new Map<string, TokenEntry>();
+  for (const [host, value] of Object.entries(parsed)) {
+    const entry = toTokenEntry(value);
+    if (entry) {
+      entries.set(host.toLowerCase(), entry);
+    }
+  }
+
+  return entries;
+}
+
+export function readTokenEnv(env: NodeJS.ProcessEnv): Map<string, TokenEntry> {
+  const entries = new Map<string, TokenEntry>();
+  for (const [key, value] of Object.entries(env)) {
+    const host = key.slice(TOKEN_ENV_PREFIX.length).toLowerCase();
+    const token = value?.trim();
+    if (key.startsWith(TOKEN_ENV_PREFIX) && host && token) {
+      entries.set(host, { token });
+    }
+  }
+
+  return entries;
+}
+
+async function readTokensFile(): Promise<Map<string, TokenEntry>> {
+  const tokensPath = resolveTokensPath();
+  let content: string;
+  try {
+    content = await readFile(tokensPath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return new Map();
+    }
+    throw error;
+  }
+
+  const entries = parseTokensFile(content);
+  if (!entries) {
+    throw new RepoPluginError(
+      "INVALID_TOKENS_FILE",
+      "Token file must be a JSON object mapping hosts to tokens",
+      `path=${tokensPath}`
+    );
+  }
+
+  return entries;
+}
+
+// Environment variables win over the token file for the same host.
+export async function loadHostTokens(): Promise<HostToken[]> {
+  const entries = new Map([
+    ...(await readTokensFile()),
+    ...readTokenEnv(process.env),
+  ]);
+
+  const tokens: HostToken[] = [];
+  for (const [host, entry] of entries) {
+    registerSecret(entry.token);
+    tokens.push({
+      host,
+      username: entry.username || TOKEN_USERNAMES[detectHostKind(host)],
+      token: entry.token,
+    });
+  }
+
+  return tokens;
+}
+
+function buildHelper(index: number, username: string): string {
+  return `!f() { if [ "$1" = get ]; then printf 'username=%s\\npassword=%s\\n' '${username}' "$${TOKEN_VALUE_ENV_PREFIX}${index}"; fi; }; f`;
+}
+
+// Tokens reach git through a per-host credential helper configured with
+// GIT_CONFIG_* variables, so they never appear in remote URLs or argv. The
+// empty helper entry clears any globally configured helpers for that host.
+export function buildCredentialEnv(
+  tokens: readonly HostToken[],
+  env: NodeJS.ProcessEnv
+): Record<string, string> {
+  if (tokens.length === 0) {
+    return {};
+  }
+
+  const existingCount = Number(env.GIT_CONFIG_COUNT);
+  let count =
+    Number.isInteger(existingCount) && existingCount > 0 ? existingCount : 0;
+  const extra: Record<string, string> = {};
+  const addConfig = (key: string, value: string) => {
+    extra[`GIT_CONFIG_KEY_${count}`] = key;
+    extra[`GIT_CONFIG_VALUE_${count}`] = value;
+    count++;
+  };
+
+  tokens.forEach((entry, index) => {
+    const key = `credential.https://${entry.host}.helper`;
+    addConfig(key, "");
+    addConfig(key, buildHelper(index, entry.username.replaceAll("'", "")));
+    extra[`${TOKEN_VALUE_ENV_PREFIX}${index}`] = entry.token;
+  });
+  extra.GIT_CONFIG_COUNT = String(count);
+
+  return extra;
+}
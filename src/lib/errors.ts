@@ -1,12 +1,189 @@
+import { redactSecrets } from "./redact";
+
+export type RepoErrorCategory =
+  | "auth"
+  | "network"
+  | "tls"
+  | "rate_limit"
+  | "disk"
+  | "not_found"
+  | "unavailable"
+  | "conflict"
+  | "lock"
+  | "timeout"
+  | "local_state"
+  | "invalid_input"
+  | "environment"
+  | "unclassified"
+  | "internal";
+
+// Machine-readable companion to the message: suggested_args are tool
+// arguments worth changing on the next call, or null when none would help.
+export interface RepoErrorHint {
+  category: RepoErrorCategory;
+  retryable: boolean;
+  suggested_args: Record<string, string | boolean> | null;
+}
+
+const CODE_HINTS: Readonly<Record<string, RepoErrorHint>> = {
+  GIT_AUTH: {
+    category: "auth",
+    retryable: false,
+    suggested_args: { auth_mode: "ssh" },
+  },
+  SSH_AUTH: {
+    category: "auth",
+    retryable: false,
+    suggested_args: { auth_mode: "https" },
+  },
+  SSH_HOST_KEY: {
+    category: "auth",
+    retryable: false,
+    suggested_args: { auth_mode: "https" },
+  },
+  GIT_NETWORK: {
+    category: "network",
+    retryable: true,
+    suggested_args: { offline: true },
+  },
+  GIT_TLS: {
+    category: "tls",
+    retryable: false,
+    suggested_args: { auth_mode: "ssh" },
+  },
+  GIT_RATE_LIMITED: {
+    category: "rate_limit",
+    retryable: true,
+    suggested_args: { offline: true },
+  },
+  DISK_FULL: {
+    category: "disk",
+    retryable: false,
+    suggested_args: { clone_strategy: "blobless" },
+  },
+  REPO_NOT_FOUND: {
+    category: "not_found",
+    retryable: false,
+    suggested_args: { auth_mode: "ssh" },
+  },
+  REF_NOT_FOUND: {
+    category: "not_found",
+    retryable: false,
+    suggested_args: { force_fetch: true },
+  },
+  REPO_NOT_CLONED: {
+    category: "not_found",
+    retryable: false,
+    suggested_args: null,
+  },
+  OFFLINE_UNAVAILABLE: {
+    category: "not_found",
+    retryable: false,
+    suggested_args: { offline: false },
+  },
+  REPO_UNAVAILABLE: {
+    category: "unavailable",
+    retryable: false,
+    suggested_args: { offline: true },
+  },
+  GIT_CONFLICT: {
+    category: "conflict",
+    retryable: false,
+    suggested_args: { update_mode: "fetch-only" },
+  },
+  GIT_NON_FAST_FORWARD: {
+    category: "conflict",
+    retryable: false,
+    suggested_args: { update_mode: "fetch-only" },
+  },
+  GIT_LOCKED: { category: "lock", retryable: true, suggested_args: null },
+  REPO_LOCKED: { category: "lock", retryable: true, suggested_args: null },
+  GIT_TIMEOUT: { category: "timeout", retryable: true, suggested_args: null },
+  DIRTY_WORKTREE: {
+    category: "local_state",
+    retryable: false,
+    suggested_args: { update_mode: "ff-stash" },
+  },
+  UNPUSHED_COMMITS: {
+    category: "local_state",
+    retryable: false,
+    suggested_args: null,
+  },
+  STASHED_CHANGES: {
+    category: "local_state",
+    retryable: false,
+    suggested_args: null,
+  },
+  DETACHED_HEAD: {
+    category: "local_state",
+    retryable: false,
+    suggested_args: null,
+  },
+  NOT_GIT_REPO: {
+    category: "local_state",
+    retryable: false,
+    suggested_args: null,
+  },
+  REPO_URL_MISMATCH: {
+    category: "local_state",
+    retryable: false,
+    suggested_args: null,
+  },
+  PATH_VIOLATION: {
+    category: "invalid_input",
+    retryable: false,
+    suggested_args: null,
+  },
+  LFS_UNAVAILABLE: {
+    category: "environment",
+    retryable: false,
+    suggested_args: { lfs: "skip" },
+  },
+  GIT_NOT_FOUND: {
+    category: "environment",
+    retryable: false,
+    suggested_args: null,
+  },
+  GIT_FAILURE: {
+    category: "unclassified",
+    retryable: false,
+    suggested_args: null,
+  },
+};
+
+const INVALID_CODE_PREFIX = "INVALID_";
+
+export function defaultErrorHint(code: string): RepoErrorHint {
+  const known = CODE_HINTS[code];
+  if (known) {
+    return known;
+  }
+
+  return {
+    category: code.startsWith(INVALID_CODE_PREFIX)
+      ? "invalid_input"
+      : "internal",
+    retryable: false,
+    suggested_args: null,
+  };
+}
+
 export class RepoPluginError extends Error {
   code: string;
   details?: string;
+  hint: RepoErrorHint;
 
-  constructor(code: string, message: string, details?: string) {
+  constructor(
+    code: string,
+    message: string,
+    details?: string,
+    hint?: RepoErrorHint
+  ) {
     super(message);
     this.name = "RepoPluginError";
     this.code = code;
     this.details = details;
+    this.hint = hint ?? defaultErrorHint(code);
   }
 }
 
@@ -24,3 +201,13 @@ export function toRepoPluginError(error: unknown): RepoPluginError {
     "Unknown failure while handling repository operation"
   );
 }
+
+export function formatToolFailure(error: unknown): never {
+  const parsed = toRepoPluginError(error);
+  const detailSuffix = parsed.details ? `\n${parsed.details}` : "";
+  throw new Error(
+    redactSecrets(
+      `[${parsed.code}] ${parsed.message}${detailSuffix}\nhint=${JSON.stringify(parsed.hint)}`
+    )
+  );
+}
@@ -1,53 +1,322 @@
+import { AsyncLocalStorage } from "node:async_hooks";
 import { spawn } from "node:child_process";
-import { mkdir, stat } from "node:fs/promises";
+import { lstat, mkdir, realpath, stat, writeFile } from "node:fs/promises";
 import path from "node:path";
+import { pathToFileURL } from "node:url";
 
+import { CHANGE_REQUEST_REF_NAMESPACE } from "./change-requests";
+import { buildCredentialEnv, loadHostTokens } from "./credentials";
 import { RepoPluginError } from "./errors";
+import { redactSecrets } from "./redact";
+import {
+  computeRetryDelayMs,
+  reportRetry,
+  resolveRetryPolicy,
+  sleep,
+} from "./retry";
+import { buildSshEnv } from "./ssh";
+import type {
+  CloneStrategy,
+  RepoChangedFile,
+  RepoCommitSummary,
+  RepoFileChangeStatus,
+  RepoSparseCheckout,
+} from "./types";
 
 interface RunGitOptions {
   cwd?: string;
   timeoutMs?: number;
 }
 
-interface RunGitResult {
+export interface RunGitResult {
   stdout: string;
   stderr: string;
   exitCode: number;
   timedOut: boolean;
 }
 
+export interface CloneOptions {
+  strategy?: CloneStrategy;
+  depth?: number;
+  sparse?: boolean;
+}
+
+export interface FetchOptions {
+  depth?: number;
+  unshallow?: boolean;
+  mirrorPath?: string;
+  // FETCH_HEAD's mtime counts as a fetch time, so fetches that did not reach
+  // the network skip writing it.
+  writeFetchHead?: boolean;
+}
+
+export interface SubmoduleConfigEntry {
+  name: string;
+  path: string;
+  url: string;
+}
+
+export interface SubmoduleStatusEntry {
+  path: string;
+  sha: string;
+  initialized: boolean;
+}
+
+export interface SubmoduleUpdateOptions {
+  recursive: boolean;
+  depth?: number;
+  noFetch: boolean;
+}
+
+interface GitFailureRule {
+  code: string;
+  message: string;
+  remoteOnly: boolean;
+  patterns: readonly RegExp[];
+  remediation: string;
+}
+
 export interface AheadBehindCounts {
   aheadBy: number;
   behindBy: number;
 }
 
 const DEFAULT_TIMEOUT_MS = 120_000;
-const WHITESPACE_PATTERN = /\s+/;
-const AUTH_FAILURE_PATTERNS: readonly RegExp[] = [
-  /authentication failed/i,
-  /could not read (?:username|password) for 'https?:\/\//i,
-  /invalid username or token/i,
-  /repository not found/i,
-  /support for password authentication was removed/i,
+export const DEFAULT_SHALLOW_DEPTH = 1;
+const SHALLOW_DEPTH_CONFIG_KEY = "opencode-repo-local.depth";
+const LFS_TIMEOUT_MS = 600_000;
+// Clones never write FETCH_HEAD, so successful clones and fetches also touch
+// this marker inside the git dir.
+const FETCH_MARKER_FILE = "opencode-last-fetch";
+const BRANCH_REF_PREFIXES = ["refs/heads/", "refs/remotes/origin/"];
+const REF_NAMESPACE_PREFIX = "refs/";
+const TAG_REF_PREFIX = "refs/tags/";
+const PEELED_SUFFIX = "^{}";
+const GITMODULES_FILE = ".gitmodules";
+const SUBMODULE_KEY_PATTERN = /^submodule\.(.+)\.(path|url)$/;
+// `git submodule status` prefixes "-" for uninitialized submodules, "+" for a
+// checkout that differs from the recorded commit, and "U" for conflicts.
+const SUBMODULE_STATUS_PATTERN = /^([ +U-]?)([0-9a-f]+) (.+?)(?: \(.*\))?$/;
+const MIRROR_FETCH_REFSPECS: readonly string[] = [
+  "+refs/heads/*:refs/remotes/origin/*",
+  "+refs/tags/*:refs/tags/*",
 ];
+// Mirrors keep only branches and tags; hosts also advertise refs such as
+// refs/pull/* that would multiply the download.
+const MIRROR_REFSPECS: readonly string[] = [
+  "+refs/heads/*:refs/heads/*",
+  "+refs/tags/*:refs/tags/*",
+];
+const PARTIAL_CLONE_FILTERS: Partial<Record<CloneStrategy, string>> = {
+  blobless: "blob:none",
+  treeless: "tree:0",
+};
+const WHITESPACE_PATTERN = /\s+/;
+const MISSING_REMOTE_REF_PATTERN = /couldn't find remote ref|not our ref/i;
+const LOG_FIELD_SEPARATOR = "\x1f";
+const FILE_STATUS_CODES: Readonly<Record<string, RepoFileChangeStatus>> = {
+  A: "added",
+  D: "deleted",
+};
 const REMOTE_COMMANDS: ReadonlySet<string> = new Set([
   "clone",
   "fetch",
   "pull",
   "ls-remote",
+  "submodule",
+  "lfs",
 ]);
 
+// Checked in order; the first rule whose pattern matches decides the code.
+// Remote-only rules are skipped for local commands, whose output can mention
+// remotes without a remote having been contacted. HTTP 4xx rules come before
+// the network rule because curl wraps them in "RPC failed" as well.
+const GIT_FAILURE_RULES: readonly GitFailureRule[] = [
+  {
+    code: "DISK_FULL",
+    message: "Disk is full",
+    remoteOnly: false,
+    patterns: [/no space left on device/i, /disk quota exceeded/i],
+    remediation:
+      "Free space on the disk holding the clone root, shrink the clone with `clone_strategy=blobless` or `sparse_paths`, or prune old clones with `repo_remove_local`.",
+  },
+  {
+    code: "GIT_LOCKED",
+    message: "Repository is locked by another git process",
+    remoteOnly: false,
+    patterns: [
+      /unable to create '.*\.lock': file exists/i,
+      /another git process seems to be running/i,
+      /cannot lock ref/i,
+    ],
+    remediation:
+      "Retry shortly. If no git process is running in this repository, delete the stale `.lock` file named above.",
+  },
+  {
+    code: "SSH_HOST_KEY",
+    message: "SSH host key verification failed for remote repository",
+    remoteOnly: true,
+    patterns: [
+      /host key verification failed/i,
+      /remote host identification has changed/i,
+    ],
+    remediation:
+      "The host key is unknown or has changed. Add the host to known_hosts (`ssh-keyscan <host> >> ~/.ssh/known_hosts`) after verifying its fingerprint, or point `known_hosts` for this host in the SSH configuration file at a file that contains it.",
+  },
+  {
+    code: "SSH_AUTH",
+    message: "SSH key was rejected by remote repository",
+    remoteOnly: true,
+    patterns: [/permission denied \(publickey/i],
+    remediation:
+      "No accepted SSH key was offered. Set `identity_file` for this host in the SSH configuration file, load the key into ssh-agent (keys with a passphrase cannot be unlocked non-interactively), or use HTTPS with `OPENCODE_REPO_TOKEN_<host>`.",
+  },
+  {
+    code: "GIT_TLS",
+    message: "TLS certificate verification failed for remote repository",
+    remoteOnly: true,
+    patterns: [
+      /ssl certificate problem/i,
+      /server certificate verification failed/i,
+      /certificate verify failed/i,
+      /gnutls_handshake\(\) failed/i,
+      /ssl_connect/i,
+    ],
+    remediation:
+      "Install the CA certificate the host uses (`git config --global http.sslCAInfo <file>`) or use SSH with `auth_mode=ssh`. Do not disable certificate verification.",
+  },
+  {
+    code: "GIT_RATE_LIMITED",
+    message: "Remote host is rate limiting requests",
+    remoteOnly: true,
+    patterns: [/returned error: 429/i, /rate limit/i, /too many requests/i],
+    remediation:
+      "Wait before retrying, authenticate to raise the limit, or serve the existing clone with `offline=true`.",
+  },
+  {
+    code: "REPO_UNAVAILABLE",
+    message: "Remote repository is disabled or archived by the host",
+    remoteOnly: true,
+    patterns: [
+      /repository (?:has been |is )?disabled/i,
+      /access to this repository has been disabled/i,
+      /repository unavailable/i,
+      /dmca/i,
+      /has been archived/i,
+    ],
+    remediation:
+      "The host no longer serves this repository. Serve an existing clone with `offline=true`, or use a fork or mirror.",
+  },
+  {
+    code: "REPO_NOT_FOUND",
+    message: "Remote repository not found",
+    remoteOnly: true,
+    patterns: [
+      /repository not found/i,
+      /does not appear to be a git repository/i,
+      /project you were looking for could not be found/i,
+      /returned error: 404/i,
+    ],
+    remediation:
+      "Check the owner and repository name. Hosts also report private repositories as missing when the credentials in use cannot see them, so authenticate with an account that has access or try `auth_mode=ssh`.",
+  },
+  {
+    code: "GIT_AUTH",
+    message: "Git authentication failed for remote repository",
+    remoteOnly: true,
+    patterns: [
+      /authentication failed/i,
+      /could not read (?:username|password) for 'https?:\/\//i,
+      /invalid username or token/i,
+      /support for password authentication was removed/i,
+      /returned error: 40[13]/i,
+      /permission to .+ denied/i,
+    ],
+    remediation:
+      "Authentication is required for this remote. Configure HTTPS credentials (set `OPENCODE_REPO_TOKEN_<host>`, add the host to the token file, or run `gh auth login && gh auth setup-git`) or use SSH with `allow_ssh=true` and an SSH URL (for example, git@github.com:owner/repo.git).",
+  },
+  {
+    code: "GIT_NETWORK",
+    message: "Remote host could not be reached",
+    remoteOnly: true,
+    patterns: [
+      /could not resolve host/i,
+      /failed to connect to/i,
+      /connection refused/i,
+      /connection timed out/i,
+      /operation timed out/i,
+      /network is unreachable/i,
+      /connection reset/i,
+      /rpc failed; (?:http 50[0234]|curl (?:7|16|18|28|52|55|56|92)) /i,
+      /early eof/i,
+      /unexpected disconnect/i,
+      /returned error: 50[0234]/i,
+    ],
+    remediation:
+      "Check network access, DNS, and proxy settings, then retry, or serve the existing clone with `offline=true`.",
+  },
+  {
+    code: "REF_NOT_FOUND",
+    message: "Requested ref was not found",
+    remoteOnly: false,
+    patterns: [
+      /couldn't find remote ref/i,
+      /remote branch .* not found/i,
+      /pathspec '.*' did not match/i,
+      /unknown revision/i,
+      /not a valid object name/i,
+      /invalid reference/i,
+    ],
+    remediation:
+      "Check the branch, tag, or commit name. Call again with `force_fetch=true` if it was created recently.",
+  },
+  {
+    code: "GIT_CONFLICT",
+    message: "Local changes conflict with the update",
+    remoteOnly: false,
+    patterns: [
+      /conflict \(/i,
+      /would be overwritten by (?:merge|checkout)/i,
+      /automatic merge failed/i,
+      /you have unmerged paths/i,
+    ],
+    remediation:
+      "Use `update_mode=ff-stash` to stash local changes around the update, `update_mode=fetch-only` to leave the checkout alone, or `update_mode=reset-clean` to discard them.",
+  },
+  {
+    code: "GIT_NON_FAST_FORWARD",
+    message: "Local branch cannot be fast-forwarded",
+    remoteOnly: false,
+    patterns: [
+      /not possible to fast-forward/i,
+      /non-fast-forward/i,
+      /diverging branches/i,
+    ],
+    remediation:
+      "The local branch has commits the remote does not. Use `update_mode=fetch-only` to keep them, or `update_mode=reset-clean` to discard them and match the remote.",
+  },
+];
+
 function summarizeGitOutput(stdout: string, stderr: string): string {
   return [stderr, stdout].filter(Boolean).join("\n").trim();
 }
 
-function looksLikeAuthFailure(args: string[], output: string): boolean {
-  const command = args[0] ?? "";
-  if (!REMOTE_COMMANDS.has(command)) {
-    return false;
-  }
+function isRemoteCommand(args: string[]): boolean {
+  return REMOTE_COMMANDS.has(args[0] ?? "");
+}
 
-  return AUTH_FAILURE_PATTERNS.some((pattern) => pattern.test(output));
+function matchFailureRule(
+  args: string[],
+  output: string
+): GitFailureRule | null {
+  const remote = isRemoteCommand(args);
+  return (
+    GIT_FAILURE_RULES.find(
+      (rule) =>
+        (remote || !rule.remoteOnly) &&
+        rule.patterns.some((pattern) => pattern.test(output))
+    ) ?? null
+  );
 }
 
 export function createGitFailureError(
@@ -56,8 +325,8 @@ export function createGitFailureError(
   stderr: string,
   timedOut: boolean
 ): RepoPluginError {
-  const command = `git ${args.join(" ")}`;
-  const output = summarizeGitOutput(stdout, stderr);
+  const command = redactSecrets(`git ${args.join(" ")}`);
+  const output = redactSecrets(summarizeGitOutput(stdout, stderr));
 
   if (timedOut) {
     const details = [command, output || "No output captured", "timed_out=true"]
@@ -66,18 +335,12 @@ export function createGitFailureError(
     return new RepoPluginError("GIT_TIMEOUT", "git command timed out", details);
   }
 
-  if (looksLikeAuthFailure(args, output)) {
-    const details = [
-      command,
-      output,
-      "Authentication is required for this remote. Configure HTTPS credentials (`gh auth login && gh auth setup-git`) or use SSH with `allow_ssh=true` and an SSH URL (for example, git@github.com:owner/repo.git).",
-    ]
-      .filter(Boolean)
-      .join("\n");
+  const rule = matchFailureRule(args, output);
+  if (rule) {
     return new RepoPluginError(
-      "GIT_AUTH",
-      "Git authentication failed for remote repository",
-      details
+      rule.code,
+      rule.message,
+      [command, output, rule.remediation].join("\n")
     );
   }
 
@@ -87,22 +350,48 @@ export function createGitFailureError(
   return new RepoPluginError("GIT_FAILURE", "git command failed", details);
 }
 
-function runGitRaw(
+const scopedEnv = new AsyncLocalStorage<Record<string, string>>();
+
+// Adds variables to every git command started while `run` is in flight,
+// local and remote alike, on top of any added by enclosing scopes.
+export function withGitEnv<T>(
+  extra: Record<string, string>,
+  run: () => Promise<T>
+): Promise<T> {
+  return scopedEnv.run({ ...scopedEnv.getStore(), ...extra }, run);
+}
+
+async function buildGitEnv(args: string[]): Promise<NodeJS.ProcessEnv> {
+  const env: NodeJS.ProcessEnv = {
+    ...process.env,
+    ...scopedEnv.getStore(),
+    GCM_INTERACTIVE: "never",
+    GIT_TERMINAL_PROMPT: "0",
+  };
+  if (!isRemoteCommand(args)) {
+    return env;
+  }
+
+  return {
+    ...env,
+    ...buildCredentialEnv(await loadHostTokens(), env),
+    ...(await buildSshEnv(env)),
+  };
+}
+
+async function spawnGit(
   args: string[],
-  options: RunGitOptions = {}
+  options: RunGitOptions
 ): Promise<RunGitResult> {
   const cwd = options.cwd;
   const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const env = await buildGitEnv(args);
 
   return new Promise((resolve, reject) => {
     let timedOut = false;
     const processRef = spawn("git", args, {
       cwd,
-      env: {
-        ...process.env,
-        GCM_INTERACTIVE: "never",
-        GIT_TERMINAL_PROMPT: "0",
-      },
+      env,
       stdio: ["ignore", "pipe", "pipe"],
     });
 
@@ -161,6 +450,49 @@ function runGitRaw(
   });
 }
 
+// Remote commands that fail with a retryable classification run again with
+// backoff. Timeouts are not retried: each attempt already used the full limit.
+export function findRetryableFailure(
+  args: string[],
+  result: RunGitResult
+): RepoPluginError | null {
+  if (result.exitCode === 0 || result.timedOut || !isRemoteCommand(args)) {
+    return null;
+  }
+
+  const error = createGitFailureError(
+    args,
+    result.stdout,
+    result.stderr,
+    false
+  );
+  return error.hint.retryable ? error : null;
+}
+
+async function runGitRaw(
+  args: string[],
+  options: RunGitOptions = {}
+): Promise<RunGitResult> {
+  const policy = resolveRetryPolicy(process.env);
+  for (let attempt = 1; ; attempt++) {
+    const result = await spawnGit(args, options);
+    const error =
+      attempt < policy.maxAttempts ? findRetryableFailure(args, result) : null;
+    if (!error) {
+      return result;
+    }
+
+    const delayMs = computeRetryDelayMs(attempt + 1, policy);
+    reportRetry({
+      command: args[0] ?? "",
+      attempt: attempt + 1,
+      code: error.code,
+      delayMs,
+    });
+    await sleep(delayMs);
+  }
+}
+
 async function runGit(
   args: string[],
   options: RunGitOptions = {}
@@ -197,41 +529,228 @@ export async function isGitRepository(cwd: string): Promise<boolean> {
   return result.exitCode === 0 && result.stdout === "true";
 }
 
+export type CheckoutDamage =
+  | "missing_git"
+  | "not_a_repository"
+  | "corrupt_head";
+
+const NOT_A_REPOSITORY_PATTERN = /not a git repository/i;
+
+// Only damage that recloning repairs is reported; any other git failure (for
+// example a safe.directory ownership check) is thrown so the caller never
+// mistakes it for a broken checkout.
+export async function findCheckoutDamage(
+  cwd: string
+): Promise<CheckoutDamage | null> {
+  if (!(await lstat(path.join(cwd, ".git")).catch(() => null))) {
+    return "missing_git";
+  }
+
+  const topLevelArgs = ["rev-parse", "--show-toplevel"];
+  const topLevel = await runGitRaw(topLevelArgs, { cwd });
+  if (topLevel.exitCode !== 0) {
+    if (NOT_A_REPOSITORY_PATTERN.test(topLevel.stderr)) {
+      return "not_a_repository";
+    }
+    throw createGitFailureError(
+      topLevelArgs,
+      topLevel.stdout,
+      topLevel.stderr,
+      topLevel.timedOut
+    );
+  }
+
+  const resolvedCwd = await realpath(cwd).catch(() => path.resolve(cwd));
+  if (path.resolve(topLevel.stdout) !== resolvedCwd) {
+    return "not_a_repository";
+  }
+
+  // --quiet fails silently only when HEAD does not name a readable commit.
+  const headArgs = ["rev-parse", "--verify", "--quiet", "HEAD^{commit}"];
+  const head = await runGitRaw(headArgs, { cwd });
+  if (head.exitCode === 0) {
+    return null;
+  }
+  if (!head.stderr) {
+    return "corrupt_head";
+  }
+  throw createGitFailureError(
+    headArgs,
+    head.stdout,
+    head.stderr,
+    head.timedOut
+  );
+}
+
+export async function isHealthyClone(cwd: string): Promise<boolean> {
+  const topLevel = await runGitRaw(["rev-parse", "--show-toplevel"], { cwd });
+  if (topLevel.exitCode !== 0) {
+    return false;
+  }
+
+  const resolvedCwd = await realpath(cwd).catch(() => path.resolve(cwd));
+  if (path.resolve(topLevel.stdout) !== resolvedCwd) {
+    return false;
+  }
+
+  const head = await runGitRaw(["rev-parse", "--verify", "--quiet", "HEAD"], {
+    cwd,
+  });
+  return head.exitCode === 0;
+}
+
+export async function findIntegrityProblems(
+  cwd: string
+): Promise<string | null> {
+  const result = await runGitRaw(
+    ["fsck", "--connectivity-only", "--no-dangling", "--no-progress"],
+    { cwd }
+  );
+  if (result.exitCode === 0) {
+    return null;
+  }
+
+  return summarizeGitOutput(result.stdout, result.stderr) || "git fsck failed";
+}
+
 export async function cloneRepo(
   repoUrl: string,
   targetPath: string,
-  depth?: number
+  options: CloneOptions = {}
 ): Promise<void> {
   await mkdir(path.dirname(targetPath), { recursive: true });
   const args = ["clone", "--origin", "origin"];
-  if (depth !== undefined) {
-    args.push("--depth", String(depth));
+  if (options.strategy === "shallow") {
+    const depth = String(options.depth ?? DEFAULT_SHALLOW_DEPTH);
+    args.push(
+      "--depth",
+      depth,
+      "--no-single-branch",
+      "--config",
+      `${SHALLOW_DEPTH_CONFIG_KEY}=${depth}`
+    );
+  }
+  const filter = options.strategy
+    ? PARTIAL_CLONE_FILTERS[options.strategy]
+    : undefined;
+  if (filter) {
+    args.push(`--filter=${filter}`);
+  }
+  if (options.sparse) {
+    args.push("--sparse");
   }
   args.push(repoUrl, targetPath);
   await runGit(args);
 }
 
-export async function fetchOrigin(cwd: string): Promise<void> {
-  await runGit(["fetch", "--prune", "origin"], { cwd });
+export async function setRemoteTrackAllBranches(cwd: string): Promise<void> {
+  await runGit(["remote", "set-branches", "origin", "*"], { cwd });
+}
+
+export async function fetchOrigin(
+  cwd: string,
+  options: FetchOptions = {}
+): Promise<void> {
+  const args = ["fetch", "--prune"];
+  if (options.writeFetchHead === false) {
+    args.push("--no-write-fetch-head");
+  }
+  if (options.unshallow) {
+    args.push("--unshallow");
+  } else if (options.depth !== undefined) {
+    args.push("--depth", String(options.depth));
+  }
+  if (options.mirrorPath) {
+    args.push(pathToFileURL(options.mirrorPath).href, ...MIRROR_FETCH_REFSPECS);
+  } else {
+    args.push("origin");
+  }
+  await runGit(args, { cwd });
+  if (options.depth !== undefined && !options.unshallow) {
+    await runGit(["config", SHALLOW_DEPTH_CONFIG_KEY, String(options.depth)], {
+      cwd,
+    });
+  }
+}
+
+export async function fetchOriginRef(
+  cwd: string,
+  refspec: string,
+  options: FetchOptions = {}
+): Promise<boolean> {
+  const source = options.mirrorPath
+    ? pathToFileURL(options.mirrorPath).href
+    : "origin";
+  const args = ["fetch"];
+  if (options.depth !== undefined) {
+    args.push("--depth", String(options.depth));
+  }
+  args.push(source, refspec);
+  const result = await runGitRaw(args, { cwd });
+  if (result.exitCode === 0) {
+    return true;
+  }
+  if (MISSING_REMOTE_REF_PATTERN.test(result.stderr)) {
+    return false;
+  }
+
+  throw createGitFailureError(
+    args,
+    result.stdout,
+    result.stderr,
+    result.timedOut
+  );
+}
+
+export async function cloneMirror(
+  repoUrl: string,
+  mirrorPath: string
+): Promise<void> {
+  await mkdir(path.dirname(mirrorPath), { recursive: true });
+  await runGit(["clone", "--bare", repoUrl, mirrorPath]);
+  await runGit(["config", "uploadpack.allowFilter", "true"], {
+    cwd: mirrorPath,
+  });
+}
+
+export async function fetchMirror(mirrorPath: string): Promise<void> {
+  await runGit(["fetch", "--prune", "origin", ...MIRROR_REFSPECS], {
+    cwd: mirrorPath,
+  });
 }
 
 export async function checkoutRef(cwd: string, ref: string): Promise<void> {
   await runGit(["checkout", ref], { cwd });
 }
 
-export async function pullFfOnlyForBranch(
+export async function fastForwardToOriginBranch(
   cwd: string,
   branch: string
 ): Promise<void> {
-  await runGit(["pull", "--ff-only", "--prune", "origin", branch], { cwd });
+  await runGit(["merge", "--ff-only", `origin/${branch}`], { cwd });
+}
+
+export async function resetKeepTo(cwd: string, ref: string): Promise<void> {
+  await runGit(["reset", "--keep", ref], { cwd });
+}
+
+export async function hardResetTo(cwd: string, ref: string): Promise<void> {
+  await runGit(["reset", "--hard", ref], { cwd });
+  await runGit(["clean", "-fd"], { cwd });
 }
 
 export async function hardResetToOriginBranch(
   cwd: string,
   branch: string
 ): Promise<void> {
-  await runGit(["reset", "--hard", `origin/${branch}`], { cwd });
-  await runGit(["clean", "-fd"], { cwd });
+  await hardResetTo(cwd, `origin/${branch}`);
+}
+
+export async function checkoutDetached(
+  cwd: string,
+  commit: string
+): Promise<void> {
+  await runGit(["checkout", "--detach", commit], { cwd });
 }
 
 export function getHeadSha(cwd: string): Promise<string> {
@@ -242,6 +761,14 @@ export function getCurrentRef(cwd: string): Promise<string> {
   return runGit(["rev-parse", "--abbrev-ref", "HEAD"], { cwd });
 }
 
+export async function getTagAtHead(cwd: string): Promise<string | null> {
+  const output = await runGit(
+    ["tag", "--points-at", "HEAD", "--sort=-version:refname"],
+    { cwd }
+  );
+  return output.split("\n").find(Boolean) ?? null;
+}
+
 export async function getDefaultBranch(cwd: string): Promise<string | null> {
   const result = await runGitRaw(
     ["symbolic-ref", "--short", "refs/remotes/origin/HEAD"],
@@ -257,8 +784,10 @@ export async function getDefaultBranch(cwd: string): Promise<string | null> {
     : result.stdout;
 }
 
+// Read from config rather than `remote get-url`, which applies url.insteadOf
+// rewrites and would report a mirror or proxy URL instead of the repository.
 export function getOriginUrl(cwd: string): Promise<string> {
-  return runGit(["remote", "get-url", "origin"], { cwd });
+  return runGit(["config", "--get", "remote.origin.url"], { cwd });
 }
 
 export async function setOriginUrl(
@@ -273,6 +802,235 @@ export async function isWorktreeDirty(cwd: string): Promise<boolean> {
   return output.length > 0;
 }
 
+function splitNulSeparated(output: string): string[] {
+  return output.split("\0").filter(Boolean);
+}
+
+export async function listChangedFiles(cwd: string): Promise<string[]> {
+  const tracked = await runGit(
+    ["diff", "--name-only", "--no-renames", "-z", "HEAD"],
+    { cwd }
+  );
+  const untracked = await runGit(
+    ["ls-files", "--others", "--exclude-standard", "-z"],
+    { cwd }
+  );
+  const files = new Set([
+    ...splitNulSeparated(tracked),
+    ...splitNulSeparated(untracked),
+  ]);
+  return [...files].sort();
+}
+
+// Returns the stash this push created, or null when it saved nothing; an
+// unchanged refs/stash still points at an older stash that is not ours.
+export async function stashLocalChanges(
+  cwd: string,
+  message: string
+): Promise<string | null> {
+  const previousSha = await getRefSha(cwd, "refs/stash");
+  await runGit(["stash", "push", "--include-untracked", "--message", message], {
+    cwd,
+  });
+  const stashSha = await getRefSha(cwd, "refs/stash");
+  return stashSha && stashSha !== previousSha ? stashSha : null;
+}
+
+export async function findStashRef(
+  cwd: string,
+  stashSha: string
+): Promise<string | null> {
+  const output = await runGit(["stash", "list", "--format=%H"], { cwd });
+  const index = output.split("\n").indexOf(stashSha);
+  return index < 0 ? null : `stash@{${index}}`;
+}
+
+export async function countStashEntries(cwd: string): Promise<number> {
+  const result = await runGitRaw(["stash", "list", "--format=%H"], { cwd });
+  if (result.exitCode !== 0 || !result.stdout) {
+    return 0;
+  }
+
+  return result.stdout.split("\n").length;
+}
+
+export async function applyStash(
+  cwd: string,
+  stashSha: string
+): Promise<boolean> {
+  const result = await runGitRaw(["stash", "apply", stashSha], { cwd });
+  return result.exitCode === 0;
+}
+
+export async function dropStash(cwd: string, stashRef: string): Promise<void> {
+  await runGit(["stash", "drop", stashRef], { cwd });
+}
+
+export function parseCommitLog(output: string): RepoCommitSummary[] {
+  return output
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => {
+      const [sha = "", author = "", date = "", subject = ""] =
+        line.split(LOG_FIELD_SEPARATOR);
+      return { sha, author, date, subject };
+    });
+}
+
+export function parseNameStatus(output: string): RepoChangedFile[] {
+  const fields = splitNulSeparated(output);
+  const files: RepoChangedFile[] = [];
+  for (let index = 0; index + 1 < fields.length; index += 2) {
+    files.push({
+      path: fields[index + 1],
+      status: FILE_STATUS_CODES[fields[index].trim()] ?? "modified",
+    });
+  }
+  return files;
+}
+
+export async function countCommits(
+  cwd: string,
+  from: string,
+  to: string
+): Promise<number> {
+  const output = await runGit(["rev-list", "--count", `${from}..${to}`], {
+    cwd,
+  });
+  return Number.parseInt(output, 10) || 0;
+}
+
+export async function getCommitLog(
+  cwd: string,
+  from: string,
+  to: string,
+  limit: number
+): Promise<RepoCommitSummary[]> {
+  const format = ["%H", "%an", "%aI", "%s"].join(LOG_FIELD_SEPARATOR);
+  const output = await runGit(
+    ["log", `--format=${format}`, `--max-count=${limit}`, `${from}..${to}`],
+    { cwd }
+  );
+  return parseCommitLog(output);
+}
+
+// Diffs from the merge base (like `from...to`) so that, when the two sides
+// have diverged, only files changed on the `to` side are listed. Shallow
+// histories without a common commit fall back to a direct diff.
+export async function getChangedFilesBetween(
+  cwd: string,
+  from: string,
+  to: string
+): Promise<RepoChangedFile[]> {
+  const base = (await getMergeBase(cwd, from, to)) ?? from;
+  const output = await runGit(
+    ["diff", "--name-status", "--no-renames", "-z", base, to],
+    { cwd }
+  );
+  return parseNameStatus(output);
+}
+
+// Full ref names match exactly. Short names prefer a branch over a tag of the
+// same name, and a peeled tag (the commit an annotated tag points at) over the
+// tag object itself.
+export function pickRemoteRefSha(output: string, name: string): string | null {
+  const shas = new Map<string, string>();
+  for (const line of output.split("\n")) {
+    const [sha, ref] = line.split("\t");
+    if (sha && ref) {
+      shas.set(ref, sha);
+    }
+  }
+
+  if (name.startsWith(REF_NAMESPACE_PREFIX)) {
+    return shas.get(name) ?? null;
+  }
+
+  return (
+    shas.get(`refs/heads/${name}`) ??
+    shas.get(`refs/tags/${name}^{}`) ??
+    shas.get(`refs/tags/${name}`) ??
+    null
+  );
+}
+
+export async function getRemoteRefSha(
+  remoteUrl: string,
+  name: string
+): Promise<string | null> {
+  const patterns = name.startsWith(REF_NAMESPACE_PREFIX)
+    ? [name]
+    : [`refs/heads/${name}`, `refs/tags/${name}`, `refs/tags/${name}^{}`];
+  const output = await runGit(["ls-remote", remoteUrl, ...patterns]);
+  return pickRemoteRefSha(output, name);
+}
+
+export interface RefListing {
+  branches: string[];
+  tags: Map<string, string>;
+}
+
+// Accepts ls-remote and show-ref output alike. Peeled entries replace the tag
+// object sha so every tag maps to the commit it points at.
+export function parseRefListing(output: string): RefListing {
+  const branches = new Set<string>();
+  const tags = new Map<string, string>();
+  for (const line of output.split("\n")) {
+    const [sha, ref] = line.trim().split(WHITESPACE_PATTERN);
+    if (!(sha && ref)) {
+      continue;
+    }
+
+    const branchPrefix = BRANCH_REF_PREFIXES.find((prefix) =>
+      ref.startsWith(prefix)
+    );
+    if (branchPrefix) {
+      const branch = ref.slice(branchPrefix.length);
+      if (branch !== "HEAD") {
+        branches.add(branch);
+      }
+      continue;
+    }
+
+    if (!ref.startsWith(TAG_REF_PREFIX)) {
+      continue;
+    }
+
+    const tag = ref.slice(TAG_REF_PREFIX.length);
+    if (tag.endsWith(PEELED_SUFFIX)) {
+      tags.set(tag.slice(0, -PEELED_SUFFIX.length), sha);
+    } else if (!tags.has(tag)) {
+      tags.set(tag, sha);
+    }
+  }
+
+  return { branches: [...branches].sort(), tags };
+}
+
+export async function listRemoteRefs(remoteUrl: string): Promise<RefListing> {
+  return parseRefListing(
+    await runGit(["ls-remote", "--heads", "--tags", remoteUrl])
+  );
+}
+
+export async function listLocalRefs(cwd: string): Promise<RefListing> {
+  const result = await runGitRaw(["show-ref", "--dereference"], { cwd });
+  return parseRefListing(result.exitCode === 0 ? result.stdout : "");
+}
+
+export async function getMergeBase(
+  cwd: string,
+  left: string,
+  right: string
+): Promise<string | null> {
+  const result = await runGitRaw(["merge-base", left, right], { cwd });
+  if (result.exitCode !== 0 || !result.stdout) {
+    return null;
+  }
+
+  return result.stdout;
+}
+
 export async function getUpstreamRef(cwd: string): Promise<string | null> {
   const result = await runGitRaw(
     ["rev-parse", "--abbrev-ref", "--symbolic-full-name", "@{upstream}"],
@@ -297,6 +1055,44 @@ export async function getRefSha(
   return result.stdout;
 }
 
+export async function deleteRef(cwd: string, ref: string): Promise<void> {
+  await runGit(["update-ref", "-d", ref], { cwd });
+}
+
+export async function updateRef(
+  cwd: string,
+  ref: string,
+  target: string
+): Promise<void> {
+  await runGit(["update-ref", ref, target], { cwd });
+}
+
+export async function forceBranchTo(
+  cwd: string,
+  branch: string,
+  target: string
+): Promise<void> {
+  await runGit(["branch", "--force", branch, target], { cwd });
+}
+
+export async function refExists(cwd: string, ref: string): Promise<boolean> {
+  const result = await runGitRaw(["show-ref", "--verify", "--quiet", ref], {
+    cwd,
+  });
+  return result.exitCode === 0;
+}
+
+export async function isCommitResolvable(
+  cwd: string,
+  ref: string
+): Promise<boolean> {
+  const result = await runGitRaw(
+    ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`],
+    { cwd }
+  );
+  return result.exitCode === 0;
+}
+
 export async function getAheadBehindCounts(
   cwd: string,
   localRef: string,
@@ -322,3 +1118,343 @@ export async function getAheadBehindCounts(
     behindBy,
   };
 }
+
+export async function resolveGitPath(
+  cwd: string,
+  name: string
+): Promise<string> {
+  const output = await runGit(["rev-parse", "--git-path", name], { cwd });
+  return path.resolve(cwd, output);
+}
+
+async function getGitPathModifiedTime(
+  cwd: string,
+  name: string
+): Promise<Date | null> {
+  const target = await resolveGitPath(cwd, name);
+  try {
+    const info = await stat(target);
+    return info.mtime;
+  } catch {
+    return null;
+  }
+}
+
+function latestTime(times: (Date | null)[]): Date | null {
+  const known = times.filter((value): value is Date => value !== null);
+  if (known.length === 0) {
+    return null;
+  }
+
+  return new Date(Math.max(...known.map((value) => value.getTime())));
+}
+
+export async function getLastFetchTime(cwd: string): Promise<Date | null> {
+  return latestTime([
+    await getGitPathModifiedTime(cwd, "FETCH_HEAD"),
+    await getGitPathModifiedTime(cwd, FETCH_MARKER_FILE),
+  ]);
+}
+
+export async function recordFetchTime(cwd: string): Promise<void> {
+  const target = await resolveGitPath(cwd, FETCH_MARKER_FILE);
+  await writeFile(target, `${new Date().toISOString()}\n`);
+}
+
+export async function getLastTouchedTime(cwd: string): Promise<Date | null> {
+  return latestTime([
+    await getLastFetchTime(cwd),
+    await getGitPathModifiedTime(cwd, "HEAD"),
+  ]);
+}
+
+const COUNT_OBJECTS_SIZE_KEYS = new Set(["size", "size-pack", "size-garbage"]);
+const KIB = 1024;
+
+// `git count-objects -v` reports loose, packed and garbage sizes in KiB.
+export function parseCountObjects(output: string): number {
+  let total = 0;
+  for (const line of output.split("\n")) {
+    const [key, value] = line.split(":").map((part) => part.trim());
+    if (key && COUNT_OBJECTS_SIZE_KEYS.has(key)) {
+      total += (Number.parseInt(value ?? "", 10) || 0) * KIB;
+    }
+  }
+
+  return total;
+}
+
+export async function getObjectStoreSize(cwd: string): Promise<number | null> {
+  const result = await runGitRaw(["count-objects", "-v"], { cwd });
+  return result.exitCode === 0 ? parseCountObjects(result.stdout) : null;
+}
+
+export async function getUnpushedCommitCount(cwd: string): Promise<number> {
+  const result = await runGitRaw(
+    [
+      "rev-list",
+      "--count",
+      "HEAD",
+      "--branches",
+      "--not",
+      "--remotes",
+      `--glob=${CHANGE_REQUEST_REF_NAMESPACE}/*`,
+    ],
+    { cwd }
+  );
+  if (result.exitCode !== 0 || !result.stdout) {
+    return 0;
+  }
+
+  const count = Number.parseInt(result.stdout, 10);
+  return Number.isNaN(count) ? 0 : count;
+}
+
+async function getConfigValue(
+  cwd: string,
+  key: string
+): Promise<string | null> {
+  const result = await runGitRaw(["config", "--get", key], { cwd });
+  if (result.exitCode !== 0 || !result.stdout) {
+    return null;
+  }
+
+  return result.stdout;
+}
+
+export async function setSparseCheckout(
+  cwd: string,
+  state: RepoSparseCheckout
+): Promise<void> {
+  const modeFlag = state.cone ? "--cone" : "--no-cone";
+  await runGit(["sparse-checkout", "set", modeFlag, ...state.patterns], {
+    cwd,
+  });
+}
+
+export async function disableSparseCheckout(cwd: string): Promise<void> {
+  await runGit(["sparse-checkout", "disable"], { cwd });
+}
+
+export async function getSparseCheckout(
+  cwd: string
+): Promise<RepoSparseCheckout | null> {
+  if ((await getConfigValue(cwd, "core.sparseCheckout")) !== "true") {
+    return null;
+  }
+
+  const output = await runGit(["sparse-checkout", "list"], { cwd });
+  return {
+    cone: (await getConfigValue(cwd, "core.sparseCheckoutCone")) === "true",
+    patterns: output.split("\n").filter(Boolean),
+  };
+}
+
+export async function isShallowRepository(cwd: string): Promise<boolean> {
+  const output = await runGit(["rev-parse", "--is-shallow-repository"], {
+    cwd,
+  });
+  return output === "true";
+}
+
+// The depth is recorded when the clone is made or re-deepened; counting
+// commits cannot recover it once several branches share the shallow history.
+export async function getShallowDepth(cwd: string): Promise<number | null> {
+  if (!(await isShallowRepository(cwd))) {
+    return null;
+  }
+
+  const depth = Number(await getConfigValue(cwd, SHALLOW_DEPTH_CONFIG_KEY));
+  return Number.isInteger(depth) && depth > 0 ? depth : null;
+}
+
+export async function getCloneStrategy(cwd: string): Promise<CloneStrategy> {
+  if (await isShallowRepository(cwd)) {
+    return "shallow";
+  }
+
+  const filter = await getConfigValue(cwd, "remote.origin.partialclonefilter");
+  for (const [strategy, strategyFilter] of Object.entries(
+    PARTIAL_CLONE_FILTERS
+  )) {
+    if (filter === strategyFilter) {
+      return strategy as CloneStrategy;
+    }
+  }
+
+  return "full";
+}
+
+export async function addDetachedWorktree(
+  cwd: string,
+  worktreePath: string,
+  commit: string,
+  noCheckout = false
+): Promise<void> {
+  await mkdir(path.dirname(worktreePath), { recursive: true });
+  const args = ["worktree", "add", "--detach"];
+  if (noCheckout) {
+    args.push("--no-checkout");
+  }
+  args.push(worktreePath, commit);
+  await runGit(args, { cwd });
+}
+
+export async function removeWorktree(
+  cwd: string,
+  worktreePath: string
+): Promise<void> {
+  await runGit(["worktree", "remove", "--force", worktreePath], { cwd });
+}
+
+export async function pruneWorktrees(cwd: string): Promise<void> {
+  await runGit(["worktree", "prune"], { cwd });
+}
+
+export async function listWorktreePaths(cwd: string): Promise<string[]> {
+  const output = await runGit(["worktree", "list", "--porcelain"], { cwd });
+  const prefix = "worktree ";
+  const mainPath = await realpath(cwd).catch(() => path.resolve(cwd));
+  return output
+    .split("\n")
+    .filter((line) => line.startsWith(prefix))
+    .map((line) => path.resolve(line.slice(prefix.length)))
+    .filter((worktreePath) => worktreePath !== mainPath);
+}
+
+export async function getWorktreeMainPath(cwd: string): Promise<string | null> {
+  const output = await runGit(
+    ["rev-parse", "--path-format=absolute", "--git-dir", "--git-common-dir"],
+    { cwd }
+  );
+  const [gitDir, commonDir] = output.split("\n");
+  if (!(gitDir && commonDir) || gitDir === commonDir) {
+    return null;
+  }
+
+  return path.dirname(commonDir);
+}
+
+export function parseSubmoduleConfig(output: string): SubmoduleConfigEntry[] {
+  const entries = new Map<string, Partial<SubmoduleConfigEntry>>();
+  for (const record of splitNulSeparated(output)) {
+    const separator = record.indexOf("\n");
+    const match = SUBMODULE_KEY_PATTERN.exec(record.slice(0, separator));
+    if (separator < 0 || !match) {
+      continue;
+    }
+
+    const [, name, field] = match;
+    const entry = entries.get(name) ?? { name };
+    entry[field as "path" | "url"] = record.slice(separator + 1);
+    entries.set(name, entry);
+  }
+
+  return [...entries.values()].filter(
+    (entry): entry is SubmoduleConfigEntry =>
+      entry.path !== undefined && entry.url !== undefined
+  );
+}
+
+export async function listSubmoduleConfig(
+  cwd: string
+): Promise<SubmoduleConfigEntry[]> {
+  const result = await runGitRaw(
+    [
+      "config",
+      "-z",
+      "--file",
+      GITMODULES_FILE,
+      "--get-regexp",
+      "^submodule\\.",
+    ],
+    { cwd }
+  );
+  return result.exitCode === 0 ? parseSubmoduleConfig(result.stdout) : [];
+}
+
+export function parseSubmoduleStatus(output: string): SubmoduleStatusEntry[] {
+  const entries: SubmoduleStatusEntry[] = [];
+  for (const line of output.split("\n")) {
+    const match = SUBMODULE_STATUS_PATTERN.exec(line);
+    if (match) {
+      entries.push({
+        path: match[3],
+        sha: match[2],
+        initialized: match[1] !== "-",
+      });
+    }
+  }
+
+  return entries;
+}
+
+export async function listSubmoduleStatus(
+  cwd: string,
+  recursive: boolean
+): Promise<SubmoduleStatusEntry[]> {
+  const args = ["submodule", "status"];
+  if (recursive) {
+    args.push("--recursive");
+  }
+  return parseSubmoduleStatus(await runGit(args, { cwd }));
+}
+
+export async function initSubmodules(cwd: string): Promise<void> {
+  await runGit(["submodule", "init"], { cwd });
+}
+
+export async function setSubmoduleUrl(
+  cwd: string,
+  name: string,
+  url: string
+): Promise<void> {
+  await runGit(["config", `submodule.${name}.url`, url], { cwd });
+}
+
+export async function updateSubmodules(
+  cwd: string,
+  options: SubmoduleUpdateOptions
+): Promise<void> {
+  const args = ["submodule", "update", "--init"];
+  if (options.recursive) {
+    args.push("--recursive");
+  }
+  if (options.depth !== undefined) {
+    args.push("--depth", String(options.depth));
+  }
+  if (options.noFetch) {
+    args.push("--no-fetch");
+  }
+  await runGit(args, { cwd });
+}
+
+export async function isLfsAvailable(): Promise<boolean> {
+  const result = await runGitRaw(["lfs", "version"]);
+  return result.exitCode === 0;
+}
+
+export async function listLfsTrackedFiles(cwd: string): Promise<string[]> {
+  const output = await runGit(["ls-files", "-z", "--", ":(attr:filter=lfs)"], {
+    cwd,
+  });
+  return splitNulSeparated(output);
+}
+
+export async function pullLfs(
+  cwd: string,
+  includePatterns: readonly string[] = []
+): Promise<void> {
+  const args = ["lfs", "pull"];
+  if (includePatterns.length > 0) {
+    args.push("--include", includePatterns.join(","));
+  }
+  await runGit(args, { cwd, timeoutMs: LFS_TIMEOUT_MS });
+}
+
+export async function checkoutLfs(
+  cwd: string,
+  includePatterns: readonly string[] = []
+): Promise<void> {
+  await runGit(["lfs", "checkout", ...includePatterns], { cwd });
+}
@@ -0,0 +1,306 @@
+import { RepoPluginError } from "./errors";
+import type { RepoChangeRequestRef } from "./types";
+
+export type RepoHostKind =
+  | "github"
+  | "gitlab"
+  | "bitbucket"
+  | "azure"
+  | "generic";
+
+export interface NormalizedRepoPath {
+  host: string;
+  segments: string[];
+  refPathSegments?: string[];
+  changeRequest?: RepoChangeRequestRef;
+}
+
+const AZURE_HOST = "dev.azure.com";
+const AZURE_SSH_HOST = "ssh.dev.azure.com";
+const AZURE_SSH_VERSION_SEGMENT = "v3";
+const AZURE_GIT_MARKER = "_git";
+const VISUALSTUDIO_HOST_SUFFIX = ".visualstudio.com";
+const AZURE_DEFAULT_COLLECTION = "defaultcollection";
+const GITLAB_WEB_SEPARATOR = "-";
+const GITHUB_PULL_MARKER = "pull";
+const GITLAB_MERGE_REQUEST_MARKER = "merge_requests";
+const CHANGE_REQUEST_NUMBER_PATTERN = /^\d+$/;
+
+const GITHUB_WEB_MARKERS: ReadonlySet<string> = new Set([
+  "tree",
+  "blob",
+  "commit",
+  "pull",
+  "issues",
+  "actions",
+  "releases",
+  "wiki",
+]);
+const TREE_REF_MARKERS: ReadonlySet<string> = new Set([
+  "tree",
+  "blob",
+  "commit",
+]);
+const BITBUCKET_WEB_MARKERS: ReadonlySet<string> = new Set([
+  "src",
+  "commits",
+  "branch",
+  "branches",
+  "pull-requests",
+  "issues",
+  "downloads",
+  "wiki",
+  "pipelines",
+]);
+const BITBUCKET_REF_MARKERS: ReadonlySet<string> = new Set(["src", "commits"]);
+
+// Azure DevOps encodes the ref kind in the `version` query prefix:
+// GB = branch, GT = tag, GC = commit.
+const AZURE_VERSION_PREFIXES: readonly string[] = ["GB", "GT", "GC"];
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+function splitSubpath(value: string): string[] {
+  return value.split("/").filter(Boolean);
+}
+
+export function detectHostKind(
+  host: string,
+  segments: readonly string[] = []
+): RepoHostKind {
+  const normalizedHost = host.toLowerCase();
+  if (normalizedHost === "github.com") {
+    return "github";
+  }
+
+  if (normalizedHost === "bitbucket.org") {
+    return "bitbucket";
+  }
+
+  if (
+    normalizedHost === AZURE_HOST ||
+    normalizedHost === AZURE_SSH_HOST ||
+    normalizedHost.endsWith(VISUALSTUDIO_HOST_SUFFIX)
+  ) {
+    return "azure";
+  }
+
+  if (
+    normalizedHost === "gitlab.com" ||
+    normalizedHost.startsWith("gitlab.") ||
+    segments.includes(GITLAB_WEB_SEPARATOR)
+  ) {
+    return "gitlab";
+  }
+
+  return "generic";
+}
+
+function refPathFromMarker(
+  marker: string | undefined,
+  rest: string[],
+  refMarkers: ReadonlySet<string>,
+  commitMarker: string
+): string[] | undefined {
+  if (!(marker && refMarkers.has(marker)) || rest.length === 0) {
+    return;
+  }
+
+  const decoded = rest.map(decodeSegment);
+  return marker === commitMarker ? decoded.slice(0, 1) : decoded;
+}
+
+function changeRequestFromMarker(
+  marker: string | undefined,
+  expectedMarker: string,
+  value: string | undefined,
+  kind: RepoChangeRequestRef["kind"]
+): RepoChangeRequestRef | undefined {
+  if (
+    marker !== expectedMarker ||
+    !(value && CHANGE_REQUEST_NUMBER_PATTERN.test(value))
+  ) {
+    return;
+  }
+
+  return { kind, number: Number(value) };
+}
+
+function normalizeGitHubPath(segments: string[]): NormalizedRepoPath {
+  if (segments.length >= 3 && GITHUB_WEB_MARKERS.has(segments[2])) {
+    return {
+      host: "github.com",
+      segments: segments.slice(0, 2),
+      refPathSegments: refPathFromMarker(
+        segments[2],
+        segments.slice(3),
+        TREE_REF_MARKERS,
+        "commit"
+      ),
+      changeRequest: changeRequestFromMarker(
+        segments[2],
+        GITHUB_PULL_MARKER,
+        segments[3],
+        "pull_request"
+      ),
+    };
+  }
+
+  return { host: "github.com", segments };
+}
+
+function normalizeGitLabPath(
+  host: string,
+  segments: string[]
+): NormalizedRepoPath {
+  const separatorIndex = segments.indexOf(GITLAB_WEB_SEPARATOR);
+  if (separatorIndex < 0) {
+    return { host, segments };
+  }
+
+  return {
+    host,
+    segments: segments.slice(0, separatorIndex),
+    refPathSegments: refPathFromMarker(
+      segments[separatorIndex + 1],
+      segments.slice(separatorIndex + 2),
+      TREE_REF_MARKERS,
+      "commit"
+    ),
+    changeRequest: changeRequestFromMarker(
+      segments[separatorIndex + 1],
+      GITLAB_MERGE_REQUEST_MARKER,
+      segments[separatorIndex + 2],
+      "merge_request"
+    ),
+  };
+}
+
+function normalizeBitbucketPath(segments: string[]): NormalizedRepoPath {
+  if (segments.length >= 3 && BITBUCKET_WEB_MARKERS.has(segments[2])) {
+    return {
+      host: "bitbucket.org",
+      segments: segments.slice(0, 2),
+      refPathSegments: refPathFromMarker(
+        segments[2],
+        segments.slice(3),
+        BITBUCKET_REF_MARKERS,
+        "commits"
+      ),
+    };
+  }
+
+  return { host: "bitbucket.org", segments };
+}
+
+function azureRepoSegments(host: string, segments: string[]): string[] {
+  if (host === AZURE_SSH_HOST) {
+    const withoutVersion =
+      segments[0] === AZURE_SSH_VERSION_SEGMENT ? segments.slice(1) : segments;
+    return withoutVersion.slice(0, 3);
+  }
+
+  const markerIndex = segments.indexOf(AZURE_GIT_MARKER);
+  if (markerIndex < 0) {
+    return host === AZURE_HOST ? segments : [host.split(".")[0], ...segments];
+  }
+
+  const prefix = segments.slice(0, markerIndex);
+  const repo = segments[markerIndex + 1];
+  if (host === AZURE_HOST) {
+    return [...prefix, repo];
+  }
+
+  const organization = host.split(".")[0];
+  const project = prefix.filter(
+    (segment) => segment.toLowerCase() !== AZURE_DEFAULT_COLLECTION
+  );
+  return [organization, ...project, repo];
+}
+
+function azureRefPathSegments(
+  query: URLSearchParams | undefined
+): string[] | undefined {
+  const version = query?.get("version");
+  if (!version) {
+    return;
+  }
+
+  const prefix = AZURE_VERSION_PREFIXES.find((value) =>
+    version.startsWith(value)
+  );
+  const ref = prefix ? version.slice(prefix.length) : version;
+  if (!ref) {
+    return;
+  }
+
+  return [...splitSubpath(ref), ...splitSubpath(query?.get("path") ?? "")];
+}
+
+function normalizeAzurePath(
+  host: string,
+  segments: string[],
+  query: URLSearchParams | undefined
+): NormalizedRepoPath {
+  const repoSegments = azureRepoSegments(host, segments).map(decodeSegment);
+  if (repoSegments.length !== 3 || repoSegments.some((segment) => !segment)) {
+    throw new RepoPluginError(
+      "INVALID_URL",
+      "Azure DevOps URLs must include organization, project, and repository (dev.azure.com/org/project/_git/repo)"
+    );
+  }
+
+  return {
+    host: AZURE_HOST,
+    segments: repoSegments,
+    refPathSegments: azureRefPathSegments(query),
+  };
+}
+
+export function normalizeHostPath(
+  host: string,
+  segments: string[],
+  query?: URLSearchParams
+): NormalizedRepoPath {
+  const normalizedHost = host.toLowerCase();
+  switch (detectHostKind(normalizedHost, segments)) {
+    case "github":
+      return normalizeGitHubPath(segments);
+    case "gitlab":
+      return normalizeGitLabPath(normalizedHost, segments);
+    case "bitbucket":
+      return normalizeBitbucketPath(segments);
+    case "azure":
+      return normalizeAzurePath(normalizedHost, segments, query);
+    default:
+      return { host: normalizedHost, segments };
+  }
+}
+
+export function toHttpsCloneUrl(host: string, segments: string[]): string {
+  if (detectHostKind(host) === "azure") {
+    const [organization, project, repo] = segments.map(encodeURIComponent);
+    return `https://${AZURE_HOST}/${organization}/${project}/${AZURE_GIT_MARKER}/${repo}`;
+  }
+
+  return `https://${host}/${segments.join("/")}.git`;
+}
+
+export function toSshCloneUrl(host: string, segments: string[]): string | null {
+  if (detectHostKind(host) === "azure") {
+    const [organization, project, repo] = segments.map(encodeURIComponent);
+    return `git@${AZURE_SSH_HOST}:${AZURE_SSH_VERSION_SEGMENT}/${organization}/${project}/${repo}`;
+  }
+
+  if (host.includes(":")) {
+    return null;
+  }
+
+  return `git@${host}:${segments.join("/")}.git`;
+}
@@ -0,0 +1,200 @@
+import { lstat, readdir, rm } from "node:fs/promises";
+import path from "node:path";
+
+import { getObjectStoreSize } from "./git";
+import { isProcessAlive } from "./lock";
+import {
+  isBrokenPathName,
+  isStagingPathFor,
+  parseStagingOwnerPid,
+} from "./paths";
+
+const GIT_ENTRY_NAME = ".git";
+const OBJECTS_DIRECTORY_NAME = "objects";
+const MIRROR_SUFFIX = ".git";
+const SIZE_BATCH_LENGTH = 64;
+
+async function readDirectoryEntries(target: string) {
+  try {
+    return await readdir(target, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+}
+
+interface CloneTree {
+  clonePaths: string[];
+  stagingPaths: string[];
+}
+
+async function collectCloneTree(
+  directory: string,
+  tree: CloneTree
+): Promise<void> {
+  const entries = await readDirectoryEntries(directory);
+  if (entries.some((entry) => entry.name === GIT_ENTRY_NAME)) {
+    tree.clonePaths.push(directory);
+    return;
+  }
+
+  for (const entry of entries) {
+    if (!entry.isDirectory() || isBrokenPathName(entry.name)) {
+      continue;
+    }
+
+    const entryPath = path.join(directory, entry.name);
+    if (parseStagingOwnerPid(entry.name) !== null) {
+      tree.stagingPaths.push(entryPath);
+      continue;
+    }
+
+    await collectCloneTree(entryPath, tree);
+  }
+}
+
+async function scanCloneRoot(cloneRoot: string): Promise<CloneTree> {
+  const tree: CloneTree = { clonePaths: [], stagingPaths: [] };
+  const hosts = await readDirectoryEntries(cloneRoot);
+  for (const host of hosts) {
+    if (!host.isDirectory()) {
+      continue;
+    }
+
+    await collectCloneTree(path.join(cloneRoot, host.name), tree);
+  }
+
+  tree.clonePaths.sort();
+  tree.stagingPaths.sort();
+  return tree;
+}
+
+export async function findLocalClonePaths(
+  cloneRoot: string
+): Promise<string[]> {
+  return (await scanCloneRoot(cloneRoot)).clonePaths;
+}
+
+async function collectMirrorPaths(
+  directory: string,
+  mirrorPaths: string[]
+): Promise<void> {
+  for (const entry of await readDirectoryEntries(directory)) {
+    if (!entry.isDirectory() || parseStagingOwnerPid(entry.name) !== null) {
+      continue;
+    }
+
+    const entryPath = path.join(directory, entry.name);
+    if (entry.name.endsWith(MIRROR_SUFFIX)) {
+      mirrorPaths.push(entryPath);
+    } else {
+      await collectMirrorPaths(entryPath, mirrorPaths);
+    }
+  }
+}
+
+export async function findMirrorPaths(mirrorRoot: string): Promise<string[]> {
+  const mirrorPaths: string[] = [];
+  await collectMirrorPaths(mirrorRoot, mirrorPaths);
+  return mirrorPaths.sort();
+}
+
+// Staging directories left behind by crashed or timed-out clones. Those whose
+// owning process is still running are in progress and kept.
+export async function sweepStagingPaths(cloneRoot: string): Promise<string[]> {
+  const removed: string[] = [];
+  for (const stagingPath of (await scanCloneRoot(cloneRoot)).stagingPaths) {
+    const ownerPid = parseStagingOwnerPid(path.basename(stagingPath));
+    if (ownerPid !== null && isProcessAlive(ownerPid)) {
+      continue;
+    }
+
+    await rm(stagingPath, { force: true, recursive: true });
+    removed.push(stagingPath);
+  }
+
+  return removed;
+}
+
+export async function removeStagingSiblings(repoPath: string): Promise<void> {
+  const parent = path.dirname(repoPath);
+  for (const entry of await readDirectoryEntries(parent)) {
+    const candidate = path.join(parent, entry.name);
+    if (entry.isDirectory() && isStagingPathFor(repoPath, candidate)) {
+      await rm(candidate, { force: true, recursive: true });
+    }
+  }
+}
+
+async function sumDirectory(
+  directory: string,
+  excluded: ReadonlySet<string>
+): Promise<number> {
+  let total = 0;
+  const files: string[] = [];
+  for (const entry of await readDirectoryEntries(directory)) {
+    const entryPath = path.join(directory, entry.name);
+    if (excluded.has(entryPath)) {
+      continue;
+    }
+
+    if (entry.isDirectory()) {
+      total += await sumDirectory(entryPath, excluded);
+    } else {
+      files.push(entryPath);
+    }
+  }
+
+  for (let index = 0; index < files.length; index += SIZE_BATCH_LENGTH) {
+    const sizes = await Promise.all(
+      files.slice(index, index + SIZE_BATCH_LENGTH).map((file) =>
+        lstat(file).then(
+          (info) => info.size,
+          () => 0
+        )
+      )
+    );
+    total += sizes.reduce((sum, size) => sum + size, 0);
+  }
+
+  return total;
+}
+
+export async function getDirectorySize(
+  target: string,
+  excluded: ReadonlySet<string> = new Set()
+): Promise<number> {
+  let info: Awaited<ReturnType<typeof lstat>>;
+  try {
+    info = await lstat(target);
+  } catch {
+    return 0;
+  }
+
+  return info.isDirectory() ? sumDirectory(target, excluded) : info.size;
+}
+
+// The object store is usually most of a clone and can hold many thousands of
+// loose objects, so git reports its size instead of it being walked. Linked
+// worktrees share the main clone's store and only count their own files;
+// bare mirrors have no .git entry and are their own git directory.
+export async function getCloneSize(clonePath: string): Promise<number> {
+  const gitPath = path.join(clonePath, GIT_ENTRY_NAME);
+  const gitInfo = await lstat(gitPath).catch(() => null);
+  if (gitInfo && !gitInfo.isDirectory()) {
+    return getDirectorySize(clonePath);
+  }
+
+  const objectStoreSize = await getObjectStoreSize(clonePath);
+  if (objectStoreSize === null) {
+    return getDirectorySize(clonePath);
+  }
+
+  const objectsPath = path.join(
+    gitInfo ? gitPath : clonePath,
+    OBJECTS_DIRECTORY_NAME
+  );
+  return (
+    objectStoreSize +
+    (await getDirectorySize(clonePath, new Set([objectsPath])))
+  );
+}
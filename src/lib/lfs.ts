@@ -0,0 +1,64 @@
+import { open, readFile } from "node:fs/promises";
+import path from "node:path";
+
+const GITATTRIBUTES_FILE = ".gitattributes";
+const LFS_FILTER_ATTRIBUTE = "filter=lfs";
+const LFS_POINTER_PREFIX = "version https://git-lfs.github.com/spec/v1";
+const WHITESPACE_PATTERN = /\s+/;
+
+export function parseLfsPatterns(content: string): string[] {
+  const patterns: string[] = [];
+  for (const line of content.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) {
+      continue;
+    }
+
+    const [pattern, ...attributes] = trimmed.split(WHITESPACE_PATTERN);
+    if (pattern && attributes.includes(LFS_FILTER_ATTRIBUTE)) {
+      patterns.push(pattern);
+    }
+  }
+
+  return patterns;
+}
+
+export async function readLfsPatterns(cwd: string): Promise<string[]> {
+  try {
+    return parseLfsPatterns(
+      await readFile(path.join(cwd, GITATTRIBUTES_FILE), "utf8")
+    );
+  } catch {
+    return [];
+  }
+}
+
+export function isLfsPointer(content: string): boolean {
+  return content.startsWith(LFS_POINTER_PREFIX);
+}
+
+// Only the first bytes are read; files outside a sparse checkout are absent
+// and count as neither pointers nor content.
+export async function findLfsPointerFiles(
+  cwd: string,
+  files: readonly string[]
+): Promise<string[]> {
+  const pointers: string[] = [];
+  const buffer = Buffer.alloc(LFS_POINTER_PREFIX.length);
+  for (const file of files) {
+    let handle: Awaited<ReturnType<typeof open>> | undefined;
+    try {
+      handle = await open(path.join(cwd, file), "r");
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+      if (isLfsPointer(buffer.toString("utf8", 0, bytesRead))) {
+        pointers.push(file);
+      }
+    } catch {
+      // Missing or unreadable files are not pointers.
+    } finally {
+      await handle?.close();
+    }
+  }
+
+  return pointers;
+}
@@ -0,0 +1,190 @@
+import {
+  link,
+  mkdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { RepoPluginError } from "./errors";
+
+const LOCK_SUFFIX = ".lock";
+const DEFAULT_LOCK_TIMEOUT_MS = 60_000;
+const LOCK_POLL_INTERVAL_MS = 100;
+const STALE_LOCK_AGE_MS = 30 * 60 * 1000;
+
+interface LockOwner {
+  pid: number;
+  hostname: string;
+  acquired_at: string;
+}
+
+export interface RepoLockOptions {
+  timeoutMs?: number;
+  staleAgeMs?: number;
+}
+
+export function buildLockPath(target: string): string {
+  return `${path.resolve(target)}${LOCK_SUFFIX}`;
+}
+
+function resolveLockTimeoutMs(override: number | undefined): number {
+  if (override !== undefined) {
+    return override;
+  }
+
+  const fromEnv = Number(process.env.OPENCODE_REPO_LOCK_TIMEOUT_MS);
+  if (Number.isInteger(fromEnv) && fromEnv >= 0) {
+    return fromEnv;
+  }
+
+  return DEFAULT_LOCK_TIMEOUT_MS;
+}
+
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+async function readLockOwner(lockPath: string): Promise<LockOwner | null> {
+  try {
+    return JSON.parse(await readFile(lockPath, "utf8")) as LockOwner;
+  } catch {
+    return null;
+  }
+}
+
+// A lock whose owner runs on this host is stale as soon as that process is
+// gone. A live pid may have been reused by an unrelated process, so age
+// decides for every other lock; holders keep theirs fresh while they run.
+function isStaleLock(
+  owner: LockOwner | null,
+  modifiedAtMs: number,
+  staleAgeMs: number
+): boolean {
+  if (owner?.hostname === os.hostname() && !isProcessAlive(owner.pid)) {
+    return true;
+  }
+
+  return Date.now() - modifiedAtMs > staleAgeMs;
+}
+
+// Moves the stale lock aside before deleting it, and only deletes it when it
+// is still the file that was judged stale. Otherwise another process has
+// already replaced it with a fresh lock, which is put back.
+async function removeStaleLock(lockPath: string, staleIno: number) {
+  const asidePath = `${lockPath}.stale-${process.pid}-${Date.now()}`;
+  try {
+    await rename(lockPath, asidePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return;
+    }
+    throw error;
+  }
+
+  if ((await stat(asidePath)).ino !== staleIno) {
+    await link(asidePath, lockPath).catch(() => undefined);
+  }
+  await rm(asidePath, { force: true });
+}
+
+// The owner record is written to a private file first and then hard-linked
+// into place, so other processes never observe a half-written lock.
+async function tryCreateLock(lockPath: string): Promise<boolean> {
+  const owner: LockOwner = {
+    pid: process.pid,
+    hostname: os.hostname(),
+    acquired_at: new Date().toISOString(),
+  };
+  const pendingPath = `${lockPath}.${process.pid}.${Date.now()}`;
+  await mkdir(path.dirname(lockPath), { recursive: true });
+  await writeFile(pendingPath, JSON.stringify(owner));
+  try {
+    await link(pendingPath, lockPath);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      return false;
+    }
+    throw error;
+  } finally {
+    await rm(pendingPath, { force: true });
+  }
+}
+
+function describeOwner(lockPath: string, owner: LockOwner | null): string {
+  const lines = [`lock_path=${lockPath}`];
+  if (owner) {
+    lines.push(
+      `owner_pid=${owner.pid}`,
+      `owner_host=${owner.hostname}`,
+      `acquired_at=${owner.acquired_at}`
+    );
+  }
+  return lines.join("\n");
+}
+
+async function acquireLock(
+  lockPath: string,
+  timeoutMs: number,
+  staleAgeMs: number
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await tryCreateLock(lockPath))) {
+    const info = await stat(lockPath).catch(() => null);
+    if (!info) {
+      continue;
+    }
+
+    const owner = await readLockOwner(lockPath);
+    if (isStaleLock(owner, info.mtimeMs, staleAgeMs)) {
+      await removeStaleLock(lockPath, info.ino);
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new RepoPluginError(
+        "REPO_LOCKED",
+        "Repository is locked by another operation",
+        describeOwner(lockPath, owner)
+      );
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_INTERVAL_MS));
+  }
+}
+
+export async function withRepoLock<T>(
+  target: string,
+  action: () => Promise<T>,
+  options: RepoLockOptions = {}
+): Promise<T> {
+  const lockPath = buildLockPath(target);
+  const staleAgeMs = options.staleAgeMs ?? STALE_LOCK_AGE_MS;
+  await acquireLock(
+    lockPath,
+    resolveLockTimeoutMs(options.timeoutMs),
+    staleAgeMs
+  );
+  const heartbeat = setInterval(() => {
+    const now = new Date();
+    utimes(lockPath, now, now).catch(() => undefined);
+  }, staleAgeMs / 3);
+  heartbeat.unref();
+  try {
+    return await action();
+  } finally {
+    clearInterval(heartbeat);
+    await rm(lockPath, { force: true });
+  }
+}
@@ -1,4 +1,5 @@
-import { mkdir } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { mkdir, readdir, rm, rmdir } from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
 
@@ -6,6 +7,14 @@ import { RepoPluginError } from "./errors";
 import type { ParsedRepoUrl } from "./types";
 
 const DEFAULT_CLONE_ROOT = "~/.opencode/repos";
+const DEFAULT_MIRROR_ROOT = "~/.opencode/mirrors";
+const MIRROR_SUFFIX = ".git";
+const WORKTREE_SEPARATOR = "@";
+const STAGING_SEPARATOR = ".staging-";
+const STAGING_NAME_PATTERN = /\.staging-(\d+)-\d+$/;
+const BROKEN_SEPARATOR = ".broken-";
+const BROKEN_NAME_PATTERN = /\.broken-\d+$/;
+const WORKTREE_HASH_LENGTH = 8;
 
 function expandHome(input: string): string {
   if (input === "~") {
@@ -33,7 +42,7 @@ function sanitizeSegment(segment: string): string {
   return sanitized;
 }
 
-function ensureWithinRoot(root: string, target: string): void {
+export function ensureWithinRoot(root: string, target: string): void {
   const resolvedRoot = path.resolve(root);
   const resolvedTarget = path.resolve(target);
   const prefix = resolvedRoot.endsWith(path.sep)
@@ -65,9 +74,113 @@ export async function resolveCloneRoot(override?: string): Promise<string> {
   return root;
 }
 
+export async function resolveMirrorRoot(): Promise<string> {
+  const fromEnv = process.env.OPENCODE_REPO_MIRROR_ROOT?.trim();
+  const root = path.resolve(expandHome(fromEnv || DEFAULT_MIRROR_ROOT));
+  await mkdir(root, { recursive: true });
+  return root;
+}
+
+export function buildMirrorPath(
+  mirrorRoot: string,
+  repo: ParsedRepoUrl
+): string {
+  const safeSegments = repo.key.split("/").map(sanitizeSegment);
+  const lastIndex = safeSegments.length - 1;
+  safeSegments[lastIndex] = `${safeSegments[lastIndex]}${MIRROR_SUFFIX}`;
+  const target = path.resolve(mirrorRoot, ...safeSegments);
+  ensureWithinRoot(mirrorRoot, target);
+  return target;
+}
+
 export function buildRepoPath(cloneRoot: string, repo: ParsedRepoUrl): string {
   const safeSegments = repo.pathSegments.map(sanitizeSegment);
   const target = path.resolve(cloneRoot, repo.host, ...safeSegments);
   ensureWithinRoot(cloneRoot, target);
   return target;
 }
+
+function worktreeName(ref: string): string {
+  const sanitized = sanitizeSegment(ref);
+  if (sanitized === ref) {
+    return sanitized;
+  }
+
+  const hash = createHash("sha1")
+    .update(ref)
+    .digest("hex")
+    .slice(0, WORKTREE_HASH_LENGTH);
+  return `${sanitized}-${hash}`;
+}
+
+export function buildWorktreePath(repoPath: string, ref: string): string {
+  const parent = path.dirname(repoPath);
+  const target = path.join(
+    parent,
+    `${path.basename(repoPath)}${WORKTREE_SEPARATOR}${worktreeName(ref)}`
+  );
+  ensureWithinRoot(parent, target);
+  return target;
+}
+
+export function buildStagingPath(repoPath: string): string {
+  return `${repoPath}${STAGING_SEPARATOR}${process.pid}-${Date.now()}`;
+}
+
+// Broken checkouts that may hold local files are kept here for inspection;
+// inventory scans skip them so they are neither listed nor pruned.
+export function buildBrokenPath(repoPath: string): string {
+  return `${repoPath}${BROKEN_SEPARATOR}${Date.now()}`;
+}
+
+export function isBrokenPathName(name: string): boolean {
+  return BROKEN_NAME_PATTERN.test(name);
+}
+
+export function parseStagingOwnerPid(name: string): number | null {
+  const match = name.match(STAGING_NAME_PATTERN);
+  return match ? Number(match[1]) : null;
+}
+
+export function isStagingPathFor(repoPath: string, candidate: string): boolean {
+  return (
+    path.dirname(candidate) === path.dirname(repoPath) &&
+    path
+      .basename(candidate)
+      .startsWith(`${path.basename(repoPath)}${STAGING_SEPARATOR}`) &&
+    parseStagingOwnerPid(candidate) !== null
+  );
+}
+
+export async function removeEmptyParents(
+  root: string,
+  target: string
+): Promise<void> {
+  const resolvedRoot = path.resolve(root);
+  let current = path.dirname(path.resolve(target));
+  while (current !== resolvedRoot && current.startsWith(resolvedRoot)) {
+    const entries = await readdir(current).catch(() => null);
+    if (!entries || entries.length > 0) {
+      return;
+    }
+
+    await rmdir(current);
+    current = path.dirname(current);
+  }
+}
+
+export async function removeRepoPath(
+  cloneRoot: string,
+  target: string
+): Promise<void> {
+  ensureWithinRoot(cloneRoot, target);
+  if (path.resolve(target) === path.resolve(cloneRoot)) {
+    throw new RepoPluginError(
+      "PATH_VIOLATION",
+      "Refusing to remove the clone root itself"
+    );
+  }
+
+  await rm(target, { force: true, recursive: true });
+  await removeEmptyParents(cloneRoot, target);
+}
@@ -0,0 +1,19 @@
+const REDACTED = "***";
+const URL_CREDENTIALS_PATTERN = /(https?:\/\/)[^\s/@]+@/gi;
+
+const secrets = new Set<string>();
+
+export function registerSecret(value: string): void {
+  if (value) {
+    secrets.add(value);
+  }
+}
+
+export function redactSecrets(text: string): string {
+  let redacted = text.replace(URL_CREDENTIALS_PATTERN, `$1${REDACTED}@`);
+  for (const secret of secrets) {
+    redacted = redacted.split(secret).join(REDACTED);
+  }
+
+  return redacted;
+}
@@ -0,0 +1,67 @@
+const MAX_SUGGESTIONS = 5;
+const MIN_DISTANCE_ALLOWANCE = 2;
+const DISTANCE_ALLOWANCE_RATIO = 3;
+
+interface RankedName {
+  name: string;
+  tier: number;
+  distance: number;
+}
+
+export function editDistance(left: string, right: string): number {
+  let previous = Array.from({ length: right.length + 1 }, (_, index) => index);
+  for (let row = 1; row <= left.length; row++) {
+    const current = [row];
+    for (let column = 1; column <= right.length; column++) {
+      const substitution = left[row - 1] === right[column - 1] ? 0 : 1;
+      current.push(
+        Math.min(
+          previous[column] + 1,
+          current[column - 1] + 1,
+          previous[column - 1] + substitution
+        )
+      );
+    }
+    previous = current;
+  }
+
+  return previous[right.length];
+}
+
+// Case-insensitive prefix and substring matches rank ahead of typos, which
+// only count within an edit distance that scales with the requested length.
+function rankName(requested: string, name: string): RankedName | null {
+  const wanted = requested.toLowerCase();
+  const candidate = name.toLowerCase();
+  const distance = editDistance(wanted, candidate);
+  if (candidate.startsWith(wanted) || wanted.startsWith(candidate)) {
+    return { name, tier: 0, distance };
+  }
+  if (candidate.includes(wanted)) {
+    return { name, tier: 1, distance };
+  }
+
+  const allowance = Math.max(
+    MIN_DISTANCE_ALLOWANCE,
+    Math.floor(wanted.length / DISTANCE_ALLOWANCE_RATIO)
+  );
+  return distance <= allowance ? { name, tier: 2, distance } : null;
+}
+
+export function suggestRefNames(
+  requested: string,
+  candidates: readonly string[],
+  limit = MAX_SUGGESTIONS
+): string[] {
+  return [...new Set(candidates)]
+    .map((name) => rankName(requested, name))
+    .filter((ranked): ranked is RankedName => ranked !== null)
+    .sort(
+      (left, right) =>
+        left.tier - right.tier ||
+        left.distance - right.distance ||
+        left.name.localeCompare(right.name)
+    )
+    .slice(0, limit)
+    .map((ranked) => ranked.name);
+}
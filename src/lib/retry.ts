@@ -0,0 +1,90 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  jitter: number;
+}
+
+export interface RetryAttempt {
+  command: string;
+  attempt: number;
+  code: string;
+  delayMs: number;
+}
+
+type RetryObserver = (attempt: RetryAttempt) => void;
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_JITTER = 0.2;
+const MAX_DELAY_MS = 30_000;
+
+const observers = new AsyncLocalStorage<RetryObserver>();
+
+function readNumber(
+  value: string | undefined,
+  isValid: (parsed: number) => boolean
+): number | null {
+  if (!value?.trim()) {
+    return null;
+  }
+
+  const parsed = Number(value);
+  return isValid(parsed) ? parsed : null;
+}
+
+export function resolveRetryPolicy(env: NodeJS.ProcessEnv): RetryPolicy {
+  return {
+    maxAttempts:
+      readNumber(
+        env.OPENCODE_REPO_RETRY_ATTEMPTS,
+        (parsed) => Number.isInteger(parsed) && parsed >= 1
+      ) ?? DEFAULT_MAX_ATTEMPTS,
+    baseDelayMs:
+      readNumber(
+        env.OPENCODE_REPO_RETRY_BASE_DELAY_MS,
+        (parsed) => Number.isInteger(parsed) && parsed >= 0
+      ) ?? DEFAULT_BASE_DELAY_MS,
+    jitter:
+      readNumber(
+        env.OPENCODE_REPO_RETRY_JITTER,
+        (parsed) => parsed >= 0 && parsed <= 1
+      ) ?? DEFAULT_JITTER,
+  };
+}
+
+// Doubles per retry (attempt 2 waits the base delay) and adds up to
+// `jitter` of the delay at random so concurrent sessions spread out.
+export function computeRetryDelayMs(
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(
+    policy.baseDelayMs * 2 ** Math.max(0, attempt - 2),
+    MAX_DELAY_MS
+  );
+  return Math.round(exponential * (1 + policy.jitter * random()));
+}
+
+// Observers nest, so both the tool call and the operation inside it see
+// every retry made while `run` is in flight.
+export function observeRetries<T>(
+  observer: RetryObserver,
+  run: () => Promise<T>
+): Promise<T> {
+  const parent = observers.getStore();
+  return observers.run((attempt) => {
+    parent?.(attempt);
+    observer(attempt);
+  }, run);
+}
+
+export function reportRetry(attempt: RetryAttempt): void {
+  observers.getStore()?.(attempt);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,43 @@
+import { RepoPluginError } from "./errors";
+import type { RepoSparseCheckout } from "./types";
+
+export type SparseCheckoutRequest = RepoSparseCheckout | "disable";
+
+function normalizeConePath(value: string): string {
+  const normalized = value.trim().replace(/^\/+|\/+$/g, "");
+  const segments = normalized.split("/");
+  if (segments.some((segment) => segment === "..")) {
+    throw new RepoPluginError(
+      "INVALID_SPARSE_PATHS",
+      `sparse_paths entries must stay inside the repository: ${value}`
+    );
+  }
+
+  return normalized;
+}
+
+export function normalizeSparseRequest(
+  sparsePaths: string[] | undefined,
+  sparsePatterns: string[] | undefined
+): SparseCheckoutRequest | undefined {
+  if (sparsePaths !== undefined && sparsePatterns !== undefined) {
+    throw new RepoPluginError(
+      "INVALID_ARGS",
+      "Use either sparse_paths (cone mode) or sparse_patterns (no-cone mode), not both"
+    );
+  }
+
+  if (sparsePaths !== undefined) {
+    const patterns = sparsePaths.map(normalizeConePath).filter(Boolean);
+    return patterns.length > 0 ? { cone: true, patterns } : "disable";
+  }
+
+  if (sparsePatterns !== undefined) {
+    const patterns = sparsePatterns
+      .map((pattern) => pattern.trim())
+      .filter(Boolean);
+    return patterns.length > 0 ? { cone: false, patterns } : "disable";
+  }
+
+  return;
+}
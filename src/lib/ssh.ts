@@ -0,0 +1,214 @@
+import { createHash } from "node:crypto";
+import { mkdtemp, readFile, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { RepoPluginError } from "./errors";
+
+export interface SshHostConfig {
+  host: string;
+  identityFile?: string;
+  knownHostsFile?: string;
+  port?: number;
+}
+
+const SSH_CONFIG_RELATIVE_PATH =
+  ".config/opencode/opencode-repo-local/ssh.json";
+const GENERATED_CONFIG_PREFIX = "opencode-repo-local-ssh-";
+const CONFIG_HASH_LENGTH = 12;
+const MAX_PORT = 65_535;
+// -F replaces the user's config, so it is included again after the generated
+// host blocks; ssh keeps the first value it sees for each option.
+const INCLUDED_CONFIGS = "~/.ssh/config /etc/ssh/ssh_config";
+
+const writtenConfigs = new Map<string, Promise<string>>();
+let generatedConfigDir: Promise<string> | null = null;
+
+function resolveSshConfigPath(): string {
+  const fromEnv = process.env.OPENCODE_REPO_SSH_CONFIG_PATH?.trim();
+  if (fromEnv) {
+    return path.resolve(fromEnv);
+  }
+
+  return path.join(os.homedir(), SSH_CONFIG_RELATIVE_PATH);
+}
+
+function resolveConfigPath(value: unknown, baseDir: string): string | null {
+  if (typeof value !== "string" || !value.trim()) {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  if (trimmed === "~" || trimmed.startsWith("~/")) {
+    return path.join(os.homedir(), trimmed.slice(1));
+  }
+
+  return path.resolve(baseDir, trimmed);
+}
+
+function invalidEntry(host: string, configPath: string): RepoPluginError {
+  return new RepoPluginError(
+    "INVALID_SSH_CONFIG",
+    `Invalid SSH configuration for host: ${host}`,
+    `path=${configPath}\nExpected { "identity_file"?: string, "known_hosts"?: string, "port"?: number }`
+  );
+}
+
+function toHostConfig(
+  host: string,
+  value: unknown,
+  configPath: string
+): SshHostConfig {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw invalidEntry(host, configPath);
+  }
+
+  const entry = value as Record<string, unknown>;
+  const baseDir = path.dirname(configPath);
+  const config: SshHostConfig = { host: host.toLowerCase() };
+  const identityFile = resolveConfigPath(entry.identity_file, baseDir);
+  if (identityFile) {
+    config.identityFile = identityFile;
+  }
+  const knownHostsFile = resolveConfigPath(entry.known_hosts, baseDir);
+  if (knownHostsFile) {
+    config.knownHostsFile = knownHostsFile;
+  }
+  if (entry.port !== undefined) {
+    const port = entry.port;
+    if (
+      typeof port !== "number" ||
+      !Number.isInteger(port) ||
+      port < 1 ||
+      port > MAX_PORT
+    ) {
+      throw invalidEntry(host, configPath);
+    }
+    config.port = port;
+  }
+
+  return config;
+}
+
+// Maps host to { identity_file, known_hosts, port }; relative paths resolve
+// against the directory of the configuration file.
+export function parseSshConfigFile(
+  content: string,
+  configPath: string
+): SshHostConfig[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    parsed = null;
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new RepoPluginError(
+      "INVALID_SSH_CONFIG",
+      "SSH configuration must be a JSON object mapping hosts to settings",
+      `path=${configPath}`
+    );
+  }
+
+  return Object.entries(parsed).map(([host, value]) =>
+    toHostConfig(host, value, configPath)
+  );
+}
+
+export async function loadSshHostConfigs(): Promise<SshHostConfig[]> {
+  const configPath = resolveSshConfigPath();
+  let content: string;
+  try {
+    content = await readFile(configPath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  return parseSshConfigFile(content, configPath);
+}
+
+function quoteConfigValue(value: string): string {
+  return `"${value.replaceAll('"', "")}"`;
+}
+
+export function renderSshConfig(hosts: readonly SshHostConfig[]): string {
+  const lines = ["# Generated by opencode-repo-local"];
+  for (const config of hosts) {
+    lines.push(`Host ${config.host}`);
+    if (config.identityFile) {
+      lines.push(
+        `  IdentityFile ${quoteConfigValue(config.identityFile)}`,
+        "  IdentitiesOnly yes"
+      );
+    }
+    if (config.knownHostsFile) {
+      lines.push(
+        `  UserKnownHostsFile ${quoteConfigValue(config.knownHostsFile)}`
+      );
+    }
+    if (config.port) {
+      lines.push(`  Port ${config.port}`);
+    }
+    lines.push("");
+  }
+  lines.push("Match all", `  Include ${INCLUDED_CONFIGS}`, "");
+
+  return lines.join("\n");
+}
+
+// The shared temp directory is writable by everyone, so generated configs go
+// into a private (0700) directory created once per process.
+function getGeneratedConfigDir(): Promise<string> {
+  generatedConfigDir ??= mkdtemp(
+    path.join(os.tmpdir(), GENERATED_CONFIG_PREFIX)
+  );
+  return generatedConfigDir;
+}
+
+async function writeConfigFile(hash: string, content: string): Promise<string> {
+  const target = path.join(await getGeneratedConfigDir(), `${hash}.config`);
+  await writeFile(target, content, { flag: "wx", mode: 0o600 });
+  return target;
+}
+
+function writeGeneratedConfig(content: string): Promise<string> {
+  const hash = createHash("sha256")
+    .update(content)
+    .digest("hex")
+    .slice(0, CONFIG_HASH_LENGTH);
+  let written = writtenConfigs.get(hash);
+  if (!written) {
+    written = writeConfigFile(hash, content);
+    written.catch(() => writtenConfigs.delete(hash));
+    writtenConfigs.set(hash, written);
+  }
+  return written;
+}
+
+function quoteShellArg(value: string): string {
+  return `'${value.replaceAll("'", "'\\''")}'`;
+}
+
+// BatchMode makes ssh fail instead of prompting for passphrases or unknown
+// host keys. A user-provided GIT_SSH_COMMAND or GIT_SSH is left untouched
+// unless hosts are configured, since it may not be OpenSSH.
+export async function buildSshEnv(
+  env: NodeJS.ProcessEnv
+): Promise<Record<string, string>> {
+  const hosts = await loadSshHostConfigs();
+  const custom = env.GIT_SSH_COMMAND?.trim();
+  if (hosts.length === 0 && (custom || env.GIT_SSH)) {
+    return {};
+  }
+
+  const command = [custom || "ssh", "-o", "BatchMode=yes"];
+  if (hosts.length > 0) {
+    const configPath = await writeGeneratedConfig(renderSshConfig(hosts));
+    command.push("-F", quoteShellArg(configPath));
+  }
+
+  return { GIT_SSH_COMMAND: command.join(" ") };
+}
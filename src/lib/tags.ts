@@ -0,0 +1,238 @@
+import { RepoPluginError } from "./errors";
+
+const MAX_LISTED_TAGS = 10;
+
+// The prefix must end in a separator so "pkg@1.2.3" and "release-1.2.3" split
+// cleanly while names like "build1.2" are not treated as versions.
+const TAG_VERSION_PATTERN =
+  /^(?<prefix>(?:.*[@/_-])?)v?(?<major>\d+)\.(?<minor>\d+)(?:\.(?<patch>\d+))?(?:-(?<prerelease>[0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const RANGE_PATTERN =
+  /^(?<prefix>(?:.*[@/_-])?)(?<operator>[\^~]?)v?(?<major>\d+)(?:\.(?<minor>\d+|[xX*]))?(?:\.(?<patch>\d+|[xX*]))?$/;
+const LATEST_PATTERN = /^(?<prefix>(?:.*[@/_-])?)latest-(?<kind>tag|release)$/;
+const WILDCARD_PATTERN = /^[xX*]$/;
+
+export interface TagVersion {
+  tag: string;
+  prefix: string;
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+interface VersionBounds {
+  lower: [number, number, number];
+  upper: [number, number, number];
+}
+
+export type TagSelector =
+  | { kind: "latest"; prefix: string; includePrerelease: boolean }
+  | { kind: "range"; prefix: string; bounds: VersionBounds };
+
+export function parseTagVersion(tag: string): TagVersion | null {
+  const groups = TAG_VERSION_PATTERN.exec(tag)?.groups;
+  if (!groups) {
+    return null;
+  }
+
+  return {
+    tag,
+    prefix: groups.prefix ?? "",
+    major: Number(groups.major),
+    minor: Number(groups.minor),
+    patch: Number(groups.patch ?? 0),
+    prerelease: groups.prerelease ? groups.prerelease.split(".") : [],
+  };
+}
+
+function comparePrerelease(left: string[], right: string[]): number {
+  if (left.length === 0 || right.length === 0) {
+    return right.length - left.length;
+  }
+
+  for (let index = 0; index < Math.max(left.length, right.length); index++) {
+    const a = left[index];
+    const b = right[index];
+    if (a === undefined || b === undefined) {
+      return a === undefined ? -1 : 1;
+    }
+    if (a === b) {
+      continue;
+    }
+
+    const aNumber = Number(a);
+    const bNumber = Number(b);
+    if (Number.isInteger(aNumber) && Number.isInteger(bNumber)) {
+      return aNumber - bNumber;
+    }
+    return a < b ? -1 : 1;
+  }
+
+  return 0;
+}
+
+function compareTriple(
+  left: [number, number, number],
+  right: [number, number, number]
+): number {
+  return left[0] - right[0] || left[1] - right[1] || left[2] - right[2];
+}
+
+export function compareTagVersions(
+  left: TagVersion,
+  right: TagVersion
+): number {
+  return (
+    compareTriple(
+      [left.major, left.minor, left.patch],
+      [right.major, right.minor, right.patch]
+    ) || comparePrerelease(left.prerelease, right.prerelease)
+  );
+}
+
+function readComponent(value: string | undefined): number | null {
+  return value === undefined || WILDCARD_PATTERN.test(value)
+    ? null
+    : Number(value);
+}
+
+// Mirrors npm semantics: ^ allows changes that keep the left-most non-zero
+// component, ~ allows patch changes, and x/* or omitted components float.
+function buildBounds(
+  operator: string,
+  major: number,
+  minor: number | null,
+  patch: number | null
+): VersionBounds {
+  const lower: [number, number, number] = [major, minor ?? 0, patch ?? 0];
+  if (minor === null) {
+    return { lower, upper: [major + 1, 0, 0] };
+  }
+  if (patch === null && operator !== "^") {
+    return { lower, upper: [major, minor + 1, 0] };
+  }
+  if (operator === "~") {
+    return { lower, upper: [major, minor + 1, 0] };
+  }
+  if (operator === "^") {
+    if (major > 0) {
+      return { lower, upper: [major + 1, 0, 0] };
+    }
+    if (minor > 0 || patch === null) {
+      return { lower, upper: [0, minor + 1, 0] };
+    }
+    return { lower, upper: [0, 0, (patch ?? 0) + 1] };
+  }
+
+  return { lower, upper: [major, minor, (patch ?? 0) + 1] };
+}
+
+// Exact refs such as "v1.2.3" or "main" are not selectors; only latest-*
+// keywords and ranges with ^, ~ or a wildcard component are.
+export function parseTagSelector(ref: string): TagSelector | null {
+  const latest = LATEST_PATTERN.exec(ref)?.groups;
+  if (latest) {
+    return {
+      kind: "latest",
+      prefix: latest.prefix ?? "",
+      includePrerelease: latest.kind === "tag",
+    };
+  }
+
+  const groups = RANGE_PATTERN.exec(ref)?.groups;
+  if (!groups) {
+    return null;
+  }
+
+  const operator = groups.operator ?? "";
+  const minor = readComponent(groups.minor);
+  const patch = readComponent(groups.patch);
+  const hasWildcard =
+    (groups.minor !== undefined && minor === null) ||
+    (groups.patch !== undefined && patch === null);
+  if (!(operator || hasWildcard)) {
+    return null;
+  }
+  if (minor === null && patch !== null) {
+    return null;
+  }
+
+  return {
+    kind: "range",
+    prefix: groups.prefix ?? "",
+    bounds: buildBounds(operator, Number(groups.major), minor, patch),
+  };
+}
+
+function matchesSelector(version: TagVersion, selector: TagSelector): boolean {
+  if (version.prefix !== selector.prefix) {
+    return false;
+  }
+  if (selector.kind === "latest") {
+    return selector.includePrerelease || version.prerelease.length === 0;
+  }
+  if (version.prerelease.length > 0) {
+    return false;
+  }
+
+  const triple: [number, number, number] = [
+    version.major,
+    version.minor,
+    version.patch,
+  ];
+  return (
+    compareTriple(triple, selector.bounds.lower) >= 0 &&
+    compareTriple(triple, selector.bounds.upper) < 0
+  );
+}
+
+export function selectTag(
+  tags: readonly string[],
+  selector: TagSelector
+): string | null {
+  let best: TagVersion | null = null;
+  for (const tag of [...tags].sort()) {
+    const version = parseTagVersion(tag);
+    if (!(version && matchesSelector(version, selector))) {
+      continue;
+    }
+    if (!best || compareTagVersions(version, best) > 0) {
+      best = version;
+    }
+  }
+
+  return best?.tag ?? null;
+}
+
+export function listNewestVersionTags(tags: readonly string[]): string[] {
+  return tags
+    .map(parseTagVersion)
+    .filter((version): version is TagVersion => version !== null)
+    .sort((left, right) => compareTagVersions(right, left))
+    .slice(0, MAX_LISTED_TAGS)
+    .map((version) => version.tag);
+}
+
+export function resolveTagSelector(
+  ref: string,
+  tags: readonly string[]
+): string | null {
+  const selector = parseTagSelector(ref);
+  if (!selector) {
+    return null;
+  }
+
+  const tag = selectTag(tags, selector);
+  if (!tag) {
+    const newest = listNewestVersionTags(tags);
+    throw new RepoPluginError(
+      "REF_NOT_FOUND",
+      `No tag matches ref selector: ${ref}`,
+      newest.length > 0
+        ? `newest_version_tags=${newest.join(",")}`
+        : "The remote has no version tags"
+    );
+  }
+
+  return tag;
+}
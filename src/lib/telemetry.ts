@@ -3,8 +3,17 @@ import os from "node:os";
 import path from "node:path";
 
 import { toRepoPluginError } from "./errors";
+import { redactSecrets } from "./redact";
+import type { RetryAttempt } from "./retry";
 import type { RepoEnsureLocalArgs, RepoEnsureResult } from "./types";
 
+interface RepoRetryTelemetry {
+  command: string;
+  attempt: number;
+  code: string;
+  delay_ms: number;
+}
+
 interface RepoEnsureTelemetryEvent {
   event: "repo_ensure_local";
   timestamp: string;
@@ -21,6 +30,9 @@ interface RepoEnsureTelemetryEvent {
   ref: string | null;
   error_code: string | null;
   error_message: string | null;
+  error_category: string | null;
+  error_retryable: boolean | null;
+  retries: RepoRetryTelemetry[];
 }
 
 const TELEMETRY_RELATIVE_PATH =
@@ -39,15 +51,31 @@ function resolveTelemetryPath(): string {
   return defaultTelemetryPath();
 }
 
+function toRetryTelemetry(
+  retries: readonly RetryAttempt[]
+): RepoRetryTelemetry[] {
+  return retries.map((retry) => ({
+    command: retry.command,
+    attempt: retry.attempt,
+    code: retry.code,
+    delay_ms: retry.delayMs,
+  }));
+}
+
 async function appendEvent(event: RepoEnsureTelemetryEvent): Promise<void> {
   const telemetryPath = resolveTelemetryPath();
   await mkdir(path.dirname(telemetryPath), { recursive: true });
-  await appendFile(telemetryPath, `${JSON.stringify(event)}\n`, "utf8");
+  await appendFile(
+    telemetryPath,
+    `${redactSecrets(JSON.stringify(event))}\n`,
+    "utf8"
+  );
 }
 
 export async function logRepoEnsureSuccess(
   args: RepoEnsureLocalArgs,
-  result: RepoEnsureResult
+  result: RepoEnsureResult,
+  retries: readonly RetryAttempt[] = []
 ): Promise<void> {
   const event: RepoEnsureTelemetryEvent = {
     event: "repo_ensure_local",
@@ -65,6 +93,9 @@ export async function logRepoEnsureSuccess(
     ref: args.ref ?? null,
     error_code: null,
     error_message: null,
+    error_category: null,
+    error_retryable: null,
+    retries: toRetryTelemetry(retries),
   };
 
   try {
@@ -76,7 +107,8 @@ export async function logRepoEnsureSuccess(
 
 export async function logRepoEnsureFailure(
   args: RepoEnsureLocalArgs,
-  error: unknown
+  error: unknown,
+  retries: readonly RetryAttempt[] = []
 ): Promise<void> {
   const parsedError = toRepoPluginError(error);
   const event: RepoEnsureTelemetryEvent = {
@@ -95,6 +127,9 @@ export async function logRepoEnsureFailure(
     ref: args.ref ?? null,
     error_code: parsedError.code,
     error_message: parsedError.message,
+    error_category: parsedError.hint.category,
+    error_retryable: parsedError.hint.retryable,
+    retries: toRetryTelemetry(retries),
   };
 
   try {
@@ -1,11 +1,21 @@
-export type UpdateMode = "ff-only" | "fetch-only" | "reset-clean";
+export type UpdateMode =
+  | "ff-only"
+  | "ff-stash"
+  | "fetch-only"
+  | "probe"
+  | "reset-clean"
+  | "recreate";
 export type AuthMode = "auto" | "https" | "ssh";
+export type SubmoduleMode = "none" | "shallow" | "recursive";
+export type LfsMode = "auto" | "skip" | "pull" | "include-patterns";
+export type CloneStrategy = "full" | "shallow" | "blobless" | "treeless";
 
 export type RepoEnsureStatus =
   | "cloned"
   | "updated"
   | "already-current"
-  | "fetched";
+  | "fetched"
+  | "probed";
 
 export type RepoFreshnessStatus =
   | "current"
@@ -19,9 +29,30 @@ export interface RepoEnsureLocalArgs {
   ref?: string;
   clone_root?: string;
   depth?: number;
+  clone_strategy?: string;
   update_mode?: string;
   allow_ssh?: boolean;
   auth_mode?: string;
+  worktree?: boolean;
+  sparse_paths?: string[];
+  sparse_patterns?: string[];
+  use_mirror?: boolean;
+  offline?: boolean;
+  fetch_ttl_seconds?: number;
+  force_fetch?: boolean;
+  verify?: boolean;
+  submodules?: string;
+  lfs?: string;
+  lfs_include?: string[];
+}
+
+export type RepoChangeRequestKind = "pull_request" | "merge_request";
+
+export type RepoChangeRequestBaseSource = "merge_ref" | "default_branch_guess";
+
+export interface RepoChangeRequestRef {
+  kind: RepoChangeRequestKind;
+  number: number;
 }
 
 export interface ParsedRepoUrl {
@@ -30,6 +61,78 @@ export interface ParsedRepoUrl {
   pathSegments: string[];
   canonicalUrl: string;
   key: string;
+  ref?: string;
+  subpath?: string;
+  refPathSegments?: string[];
+  changeRequest?: RepoChangeRequestRef;
+}
+
+export interface RepoSparseCheckout {
+  cone: boolean;
+  patterns: string[];
+}
+
+export interface RepoStashEntry {
+  sha: string;
+  ref: string | null;
+  files: string[];
+  reapplied: boolean;
+}
+
+export type RepoFileChangeStatus = "added" | "modified" | "deleted";
+
+export interface RepoCommitSummary {
+  sha: string;
+  author: string;
+  date: string;
+  subject: string;
+}
+
+export interface RepoChangedFile {
+  path: string;
+  status: RepoFileChangeStatus;
+}
+
+export interface RepoChangeSummary {
+  from_sha: string;
+  to_sha: string;
+  commit_count: number;
+  commits: RepoCommitSummary[];
+  commits_truncated: boolean;
+  files: RepoChangedFile[];
+  files_truncated: boolean;
+}
+
+export interface RepoResolvedRef {
+  selector: string;
+  tag: string;
+  sha: string | null;
+}
+
+export interface RepoChangeRequest {
+  kind: RepoChangeRequestKind;
+  number: number;
+  remote_ref: string;
+  local_branch: string;
+  head_sha: string;
+  base_ref: string | null;
+  base_ref_source: RepoChangeRequestBaseSource | null;
+  merge_base_sha: string | null;
+}
+
+export interface RepoSubmodule {
+  path: string;
+  url: string | null;
+  sha: string;
+  initialized: boolean;
+}
+
+export interface RepoLfsStatus {
+  patterns: string[];
+  tracked_files: number;
+  pointer_files: number;
+  pointer_examples: string[];
+  lfs_available: boolean;
 }
 
 export interface RepoEnsureResult {
@@ -44,6 +147,83 @@ export interface RepoEnsureResult {
   ahead_by: number | null;
   behind_by: number | null;
   freshness: RepoFreshnessStatus;
+  last_fetched_at: string | null;
+  last_fetch_age_seconds: number | null;
+  fetch_cached: boolean;
+  target_path: string;
+  worktree_of: string | null;
+  mirror_path: string | null;
+  clone_strategy: CloneStrategy;
+  sparse_checkout: RepoSparseCheckout | null;
+  stash: RepoStashEntry | null;
+  changes: RepoChangeSummary | null;
+  resolved_ref: RepoResolvedRef | null;
+  change_request: RepoChangeRequest | null;
+  submodules: RepoSubmodule[];
+  lfs: RepoLfsStatus | null;
   actions: string[];
   instructions: string[];
 }
+
+export interface RepoListLocalArgs {
+  clone_root?: string;
+}
+
+export interface RepoLocalEntry {
+  repo_url: string;
+  local_path: string;
+  worktree_of: string | null;
+  current_ref: string;
+  head_sha: string | null;
+  default_branch: string | null;
+  dirty: boolean;
+  last_fetched_at: string | null;
+  size_bytes: number;
+  error: string | null;
+}
+
+export interface RepoListResult {
+  clone_root: string;
+  repos: RepoLocalEntry[];
+}
+
+export interface RepoRemoveLocalArgs {
+  repo?: string;
+  ref?: string;
+  clone_root?: string;
+  allow_ssh?: boolean;
+  max_age_days?: number;
+  max_total_bytes?: number;
+  prune_mirrors?: boolean;
+  force?: boolean;
+}
+
+export type RepoRemovalReason = "requested" | "max_age" | "size_budget";
+
+export type RepoProtectionReason =
+  | "dirty_worktree"
+  | "unpushed_commits"
+  | "stashed_changes"
+  | "unreadable"
+  | "locked";
+
+export interface RepoRemovedEntry {
+  repo_url: string;
+  local_path: string;
+  size_bytes: number;
+  reason: RepoRemovalReason;
+}
+
+export interface RepoSkippedEntry {
+  repo_url: string;
+  local_path: string;
+  reason: RepoProtectionReason;
+}
+
+export interface RepoRemoveResult {
+  clone_root: string;
+  removed: RepoRemovedEntry[];
+  skipped: RepoSkippedEntry[];
+  total_bytes_before: number | null;
+  total_bytes_after: number | null;
+}
@@ -1,30 +1,21 @@
 import { RepoPluginError } from "./errors";
+import { normalizeHostPath, toHttpsCloneUrl, toSshCloneUrl } from "./hosts";
 import type { ParsedRepoUrl } from "./types";
 
 const SSH_PATTERN = /^git@([^:/]+):(.+)$/;
 const GIT_SUFFIX_PATTERN = /\.git$/i;
 const HTTP_OR_HTTPS_PATTERN = /^https?:\/\//i;
-const GITHUB_WEB_MARKERS: ReadonlySet<string> = new Set([
-  "tree",
-  "blob",
-  "commit",
-  "pull",
-  "issues",
-  "actions",
-  "releases",
-  "wiki",
-]);
-
-function normalizePathSegments(host: string, segments: string[]): string[] {
-  if (host.toLowerCase() !== "github.com") {
-    return segments;
-  }
 
-  if (segments.length >= 3 && GITHUB_WEB_MARKERS.has(segments[2])) {
-    return segments.slice(0, 2);
+function stripGitSuffix(segments: string[]): string[] {
+  if (segments.length === 0) {
+    return segments;
   }
 
-  return segments;
+  const lastIndex = segments.length - 1;
+  return [
+    ...segments.slice(0, lastIndex),
+    segments[lastIndex].replace(GIT_SUFFIX_PATTERN, ""),
+  ];
 }
 
 function splitPathSegments(input: string): string[] {
@@ -33,14 +24,16 @@ function splitPathSegments(input: string): string[] {
     return [];
   }
 
-  const segments = trimmed.split("/").filter(Boolean);
-  if (segments.length === 0) {
-    return [];
-  }
+  return trimmed.split("/").filter(Boolean);
+}
 
-  const lastIndex = segments.length - 1;
-  segments[lastIndex] = segments[lastIndex].replace(GIT_SUFFIX_PATTERN, "");
-  return segments;
+export function splitRefPath(
+  refPathSegments: string[],
+  refSegmentCount: number
+): { ref: string; subpath?: string } {
+  const ref = refPathSegments.slice(0, refSegmentCount).join("/");
+  const subpath = refPathSegments.slice(refSegmentCount).join("/");
+  return subpath ? { ref, subpath } : { ref };
 }
 
 function validateSegments(segments: string[]): void {
@@ -69,28 +62,43 @@ function buildParsed(
   raw: string,
   host: string,
   segmentsInput: string[] | string,
-  protocol: "https" | "ssh"
+  protocol: "https" | "ssh",
+  query?: URLSearchParams
 ): ParsedRepoUrl {
   const splitSegments = Array.isArray(segmentsInput)
     ? segmentsInput
     : splitPathSegments(segmentsInput);
-  const segments = normalizePathSegments(host, splitSegments);
+  const normalized = normalizeHostPath(host, splitSegments, query);
+  const segments = stripGitSuffix(normalized.segments);
   validateSegments(segments);
 
-  const normalizedHost = host.toLowerCase();
-  const canonicalPath = segments.join("/");
+  const normalizedHost = normalized.host;
   const canonicalUrl =
     protocol === "https"
-      ? `https://${normalizedHost}/${canonicalPath}.git`
-      : `git@${normalizedHost}:${canonicalPath}.git`;
+      ? toHttpsCloneUrl(normalizedHost, segments)
+      : (toSshCloneUrl(normalizedHost, segments) ??
+        toHttpsCloneUrl(normalizedHost, segments));
 
-  return {
+  const parsed: ParsedRepoUrl = {
     raw,
     host: normalizedHost,
     pathSegments: segments,
     canonicalUrl,
     key: makeRepoKey(normalizedHost, segments),
   };
+
+  if (normalized.refPathSegments) {
+    const { ref, subpath } = splitRefPath(normalized.refPathSegments, 1);
+    parsed.ref = ref;
+    parsed.subpath = subpath;
+    parsed.refPathSegments = normalized.refPathSegments;
+  }
+
+  if (normalized.changeRequest) {
+    parsed.changeRequest = normalized.changeRequest;
+  }
+
+  return parsed;
 }
 
 function parseHttpLikeUrl(raw: string): ParsedRepoUrl {
@@ -106,7 +114,8 @@ function parseHttpLikeUrl(raw: string): ParsedRepoUrl {
     raw,
     url.hostname,
     splitPathSegments(url.pathname),
-    "https"
+    "https",
+    url.searchParams
   );
 }
 
@@ -1,45 +1,188 @@
-import { rm } from "node:fs/promises";
+import { readdir, realpath, rename, rm } from "node:fs/promises";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
 import { tool } from "@opencode-ai/plugin";
 
-import { normalizeAuthMode, resolveRepoRemotePlan } from "../lib/auth";
-import { RepoPluginError, toRepoPluginError } from "../lib/errors";
+import { assertKnownArgs } from "../lib/args";
+import {
+  normalizeAuthMode,
+  type RepoRemotePlan,
+  resolveRepoRemotePlan,
+} from "../lib/auth";
+import {
+  type ChangeRequestTarget,
+  parseChangeRequestRef,
+  resolveChangeRequestTarget,
+} from "../lib/change-requests";
+import {
+  formatToolFailure,
+  RepoPluginError,
+  toRepoPluginError,
+} from "../lib/errors";
 import {
   type AheadBehindCounts,
+  addDetachedWorktree,
+  applyStash,
+  type CheckoutDamage,
+  type CloneOptions,
+  checkoutDetached,
+  checkoutLfs,
   checkoutRef,
+  cloneMirror,
   cloneRepo,
+  countCommits,
+  countStashEntries,
+  DEFAULT_SHALLOW_DEPTH,
+  deleteRef,
   directoryExists,
+  disableSparseCheckout,
+  dropStash,
   ensureGitAvailable,
+  type FetchOptions,
+  fastForwardToOriginBranch,
+  fetchMirror,
   fetchOrigin,
+  fetchOriginRef,
+  findCheckoutDamage,
+  findIntegrityProblems,
+  findStashRef,
+  forceBranchTo,
   getAheadBehindCounts,
+  getChangedFilesBetween,
+  getCloneStrategy,
+  getCommitLog,
   getCurrentRef,
   getDefaultBranch,
   getHeadSha,
+  getLastFetchTime,
+  getMergeBase,
   getOriginUrl,
   getRefSha,
+  getRemoteRefSha,
+  getShallowDepth,
+  getSparseCheckout,
+  getTagAtHead,
+  getUnpushedCommitCount,
   getUpstreamRef,
+  hardResetTo,
   hardResetToOriginBranch,
+  initSubmodules,
+  isCommitResolvable,
   isGitRepository,
+  isHealthyClone,
+  isLfsAvailable,
+  isShallowRepository,
   isWorktreeDirty,
-  pullFfOnlyForBranch,
+  listChangedFiles,
+  listLfsTrackedFiles,
+  listLocalRefs,
+  listRemoteRefs,
+  listSubmoduleConfig,
+  listSubmoduleStatus,
+  listWorktreePaths,
+  pruneWorktrees,
+  pullLfs,
+  type RefListing,
+  recordFetchTime,
+  refExists,
+  removeWorktree,
+  resetKeepTo,
+  type SubmoduleUpdateOptions,
   setOriginUrl,
+  setRemoteTrackAllBranches,
+  setSparseCheckout,
+  setSubmoduleUrl,
+  stashLocalChanges,
+  updateRef,
+  updateSubmodules,
+  withGitEnv,
 } from "../lib/git";
-import { buildRepoPath, resolveCloneRoot } from "../lib/paths";
+import { removeStagingSiblings } from "../lib/inventory";
+import { findLfsPointerFiles, readLfsPatterns } from "../lib/lfs";
+import { withRepoLock } from "../lib/lock";
+import {
+  buildBrokenPath,
+  buildMirrorPath,
+  buildRepoPath,
+  buildStagingPath,
+  buildWorktreePath,
+  ensureWithinRoot,
+  resolveCloneRoot,
+  resolveMirrorRoot,
+} from "../lib/paths";
+import { suggestRefNames } from "../lib/ref-suggestions";
+import { observeRetries, type RetryAttempt } from "../lib/retry";
+import {
+  normalizeSparseRequest,
+  type SparseCheckoutRequest,
+} from "../lib/sparse";
+import { parseTagSelector, resolveTagSelector } from "../lib/tags";
 import { logRepoEnsureFailure, logRepoEnsureSuccess } from "../lib/telemetry";
 import type {
-  AuthMode,
+  CloneStrategy,
+  LfsMode,
+  ParsedRepoUrl,
+  RepoChangeRequest,
+  RepoChangeRequestBaseSource,
+  RepoChangeSummary,
   RepoEnsureLocalArgs,
   RepoEnsureResult,
   RepoEnsureStatus,
   RepoFreshnessStatus,
+  RepoLfsStatus,
+  RepoResolvedRef,
+  RepoStashEntry,
+  RepoSubmodule,
+  SubmoduleMode,
   UpdateMode,
 } from "../lib/types";
-import { parseRepoUrl } from "../lib/url";
+import { parseRepoUrl, splitRefPath } from "../lib/url";
+
+const CLONE_STRATEGIES: ReadonlySet<string> = new Set([
+  "full",
+  "shallow",
+  "blobless",
+  "treeless",
+]);
+
+const DEFAULT_FETCH_TTL_SECONDS = 0;
+
+const STASH_MESSAGE = "opencode-repo-local ff-stash";
+const FULL_SHA_PATTERN = /^(?:[0-9a-f]{40}|[0-9a-f]{64})$/i;
+const MAX_SUMMARY_COMMITS = 20;
+const MAX_SUMMARY_FILES = 100;
+const ORIGIN_PREFIX = "origin/";
 
 const UPDATE_MODES: ReadonlySet<string> = new Set([
   "ff-only",
+  "ff-stash",
   "fetch-only",
+  "probe",
   "reset-clean",
+  "recreate",
+]);
+
+// Hosts answer "repository not found" for private repositories the HTTPS
+// credentials cannot see, so SSH is worth trying for both.
+const AUTH_FALLBACK_CODES: ReadonlySet<string> = new Set([
+  "GIT_AUTH",
+  "REPO_NOT_FOUND",
+]);
+
+const SUBMODULE_MODES: ReadonlySet<string> = new Set([
+  "none",
+  "shallow",
+  "recursive",
+]);
+const SHALLOW_SUBMODULE_DEPTH = 1;
+const LFS_MODES: ReadonlySet<string> = new Set([
+  "auto",
+  "skip",
+  "pull",
+  "include-patterns",
 ]);
+const MAX_POINTER_EXAMPLES = 10;
+const SSH_URL_PATTERN = /^(?:git@|ssh:\/\/)/;
 
 const REPO_TOOL_ARGS = {
   repo: tool.schema
@@ -50,7 +193,9 @@ const REPO_TOOL_ARGS = {
   ref: tool.schema
     .string()
     .optional()
-    .describe("Optional branch/tag/sha to checkout after clone/fetch."),
+    .describe(
+      "Optional branch/tag/sha to checkout after clone/fetch. Also accepts latest-tag, latest-release, and semver ranges such as ^3.2, ~1.4.0, or 3.x (optionally prefixed, e.g. pkg@^1.2), resolved against the remote's tags, and pull/merge requests as pr:123, pull/123, mr:45, or a PR URL."
+    ),
   clone_root: tool.schema
     .string()
     .optional()
@@ -62,11 +207,21 @@ const REPO_TOOL_ARGS = {
     .int()
     .positive()
     .optional()
-    .describe("Optional shallow clone depth."),
+    .describe(
+      "Optional shallow clone depth. Implies clone_strategy=shallow (default depth 1 when clone_strategy=shallow is given without depth)."
+    ),
+  clone_strategy: tool.schema
+    .string()
+    .optional()
+    .describe(
+      "Clone strategy: full (default), shallow, blobless (--filter=blob:none), or treeless (--filter=tree:0). Blobless/treeless keep full history but fetch file contents lazily. Requesting a non-shallow strategy for an existing shallow clone unshallows it."
+    ),
   update_mode: tool.schema
     .string()
     .optional()
-    .describe("Update policy: ff-only (default), fetch-only, or reset-clean."),
+    .describe(
+      "Update policy: ff-only (default), ff-stash, fetch-only, probe, reset-clean, or recreate. probe only runs git ls-remote to compare the remote tip with comparison_ref, without fetching objects or changing refs. ff-stash stashes local edits (including untracked files) around the fast-forward and re-applies them; on conflict the stash is kept and reported. recreate deletes the clone and clones it again, keeping ref, depth, clone strategy, and sparse settings."
+    ),
   allow_ssh: tool.schema
     .boolean()
     .optional()
@@ -79,6 +234,74 @@ const REPO_TOOL_ARGS = {
     .describe(
       "Authentication strategy for remote URLs: auto (default), https, or ssh. auto uses HTTPS first and falls back to SSH on auth failure when possible."
     ),
+  sparse_paths: tool.schema
+    .array(tool.schema.string())
+    .optional()
+    .describe(
+      "Optional directories to materialize with a cone-mode sparse checkout (for example ['packages/core']). New clones become blob-filtered sparse clones. Pass again to widen or narrow; pass [] to restore a full checkout."
+    ),
+  worktree: tool.schema
+    .boolean()
+    .optional()
+    .describe(
+      "Check out ref in an isolated git worktree next to the main clone instead of moving the main clone's HEAD. Use when several sessions need different refs of the same repo. local_path then points at the ref-specific worktree. Requires ref (or a URL that embeds one)."
+    ),
+  sparse_patterns: tool.schema
+    .array(tool.schema.string())
+    .optional()
+    .describe(
+      "Optional gitignore-style patterns for a no-cone sparse checkout (for example ['/*.md', '/src/**/*.ts']). Mutually exclusive with sparse_paths. Pass [] to restore a full checkout."
+    ),
+  use_mirror: tool.schema
+    .boolean()
+    .optional()
+    .describe(
+      "Clone and fetch through a shared bare mirror cache (branches and tags, full history) so other clone roots reuse already-downloaded objects. Defaults to false unless OPENCODE_REPO_USE_MIRROR=true."
+    ),
+  offline: tool.schema
+    .boolean()
+    .optional()
+    .describe(
+      "Serve the existing clone (or the shared mirror) without any network access. Skips clone/fetch; ref must already exist locally. Defaults to false unless OPENCODE_REPO_OFFLINE=true."
+    ),
+  fetch_ttl_seconds: tool.schema
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe(
+      "Skip fetching when the clone was fetched within this many seconds and report fetch_cached=true. Defaults to OPENCODE_REPO_FETCH_TTL_SECONDS or 0, which always fetches."
+    ),
+  force_fetch: tool.schema
+    .boolean()
+    .optional()
+    .describe(
+      "Fetch even when the last fetch is within fetch_ttl_seconds. Defaults to false."
+    ),
+  verify: tool.schema
+    .boolean()
+    .optional()
+    .describe(
+      "Run a connectivity check (git fsck --connectivity-only) on the existing clone first. A damaged clone is recloned automatically; one holding local work is moved aside first. Defaults to false."
+    ),
+  submodules: tool.schema
+    .string()
+    .optional()
+    .describe(
+      "Submodule handling: none (default) leaves submodules uninitialized, shallow initializes top-level submodules at depth 1, recursive initializes nested submodules with full history. Submodule URLs on the repository's host follow auth_mode."
+    ),
+  lfs: tool.schema
+    .string()
+    .optional()
+    .describe(
+      "Git LFS handling: auto (default) leaves git's LFS smudge filter as configured, skip keeps LFS files as pointer stubs and only reports them, pull downloads all LFS content, include-patterns downloads only files matching lfs_include. pull and include-patterns require git-lfs and fail with LFS_UNAVAILABLE when it is missing."
+    ),
+  lfs_include: tool.schema
+    .array(tool.schema.string())
+    .optional()
+    .describe(
+      "Glob patterns of LFS files to download with lfs=include-patterns, for example ['models/*.bin']."
+    ),
 } as const;
 
 const ALLOWED_KEYS = new Set(Object.keys(REPO_TOOL_ARGS));
@@ -91,6 +314,40 @@ interface RepoFreshnessDetails {
   freshness: RepoFreshnessStatus;
 }
 
+interface LfsRequest {
+  mode: LfsMode;
+  include: string[];
+}
+
+interface EnsureContext {
+  localPath: string;
+  mirrorPath: string | null;
+  parsedRepo: ParsedRepoUrl;
+  remotePlan: RepoRemotePlan;
+  mode: UpdateMode;
+  verify: boolean;
+  offline: boolean;
+  fetchTtlSeconds: number;
+  forceFetch: boolean;
+  fetchCached: boolean;
+  cloneStrategy: CloneStrategy | undefined;
+  depth: number | undefined;
+  ref: string | undefined;
+  sparse: SparseCheckoutRequest | undefined;
+  useWorktree: boolean;
+  worktreeRef: string | undefined;
+  workPath: string;
+  actions: string[];
+  targetSubpath: string | undefined;
+  stash: RepoStashEntry | null;
+  beforeSha: string | undefined;
+  probedFreshness: RepoFreshnessDetails | undefined;
+  resolvedRef: RepoResolvedRef | null;
+  changeRequest: ChangeRequestTarget | null;
+  submodules: SubmoduleMode;
+  lfs: LfsRequest;
+}
+
 function normalizeUpdateMode(value: string | undefined): UpdateMode {
   const mode = (value ?? "ff-only").trim();
   if (!UPDATE_MODES.has(mode)) {
@@ -102,26 +359,90 @@ function normalizeUpdateMode(value: string | undefined): UpdateMode {
   return mode as UpdateMode;
 }
 
-function formatFailure(error: unknown): never {
-  const parsed = toRepoPluginError(error);
-  const detailSuffix = parsed.details ? `\n${parsed.details}` : "";
-  throw new Error(`[${parsed.code}] ${parsed.message}${detailSuffix}`);
+function normalizeSubmoduleMode(value: string | undefined): SubmoduleMode {
+  const mode = (value ?? "none").trim();
+  if (!SUBMODULE_MODES.has(mode)) {
+    throw new RepoPluginError(
+      "INVALID_ARGS",
+      `Unsupported submodules mode: ${mode}`
+    );
+  }
+  return mode as SubmoduleMode;
 }
 
-function toResultText(result: RepoEnsureResult): string {
-  return JSON.stringify(result, null, 2);
+function normalizeLfsRequest(
+  value: string | undefined,
+  include: string[] | undefined
+): LfsRequest {
+  const mode = (value ?? "auto").trim();
+  if (!LFS_MODES.has(mode)) {
+    throw new RepoPluginError("INVALID_ARGS", `Unsupported lfs mode: ${mode}`);
+  }
+
+  const patterns = (include ?? [])
+    .map((pattern) => pattern.trim())
+    .filter(Boolean);
+  if ((mode === "include-patterns") !== patterns.length > 0) {
+    throw new RepoPluginError(
+      "INVALID_ARGS",
+      "lfs_include is required with lfs=include-patterns and only allowed with it"
+    );
+  }
+
+  return { mode: mode as LfsMode, include: patterns };
 }
 
-function assertKnownArgs(args: RepoEnsureLocalArgs): void {
-  const extraKeys = Object.keys(args ?? {}).filter(
-    (key) => !ALLOWED_KEYS.has(key)
-  );
-  if (extraKeys.length > 0) {
+function resolveFetchTtlSeconds(value: number | undefined): number {
+  if (value !== undefined) {
+    return value;
+  }
+
+  const fromEnv = Number(process.env.OPENCODE_REPO_FETCH_TTL_SECONDS);
+  if (Number.isInteger(fromEnv) && fromEnv >= 0) {
+    return fromEnv;
+  }
+
+  return DEFAULT_FETCH_TTL_SECONDS;
+}
+
+function resolveChangeRequest(
+  parsedRepo: ParsedRepoUrl,
+  ref: string | undefined
+): ChangeRequestTarget | null {
+  const request = ref
+    ? parseChangeRequestRef(ref, parsedRepo)
+    : parsedRepo.changeRequest;
+  return request ? resolveChangeRequestTarget(request, parsedRepo.host) : null;
+}
+
+function normalizeCloneStrategy(
+  value: string | undefined,
+  depth: number | undefined
+): CloneStrategy | undefined {
+  if (value === undefined) {
+    return depth === undefined ? undefined : "shallow";
+  }
+
+  const strategy = value.trim();
+  if (!CLONE_STRATEGIES.has(strategy)) {
+    throw new RepoPluginError(
+      "INVALID_CLONE_STRATEGY",
+      `Unsupported clone_strategy: ${strategy}`
+    );
+  }
+
+  if (depth !== undefined && strategy !== "shallow") {
     throw new RepoPluginError(
       "INVALID_ARGS",
-      `Unknown arguments: ${extraKeys.join(", ")}`
+      "depth can only be combined with clone_strategy=shallow"
     );
   }
+
+  return strategy as CloneStrategy;
+}
+
+function toResultText(result: RepoEnsureResult): string {
+  return JSON.stringify(result, null, 2);
 }
 
 function deriveFreshnessFromCounts(
@@ -148,8 +469,16 @@ function deriveFreshnessFromCounts(
 
 async function resolveComparisonRef(
   localPath: string,
-  currentRef: string
+  currentRef: string,
+  worktreeRef: string | undefined
 ): Promise<string | null> {
+  if (worktreeRef) {
+    const worktreeComparison = `origin/${worktreeRef}`;
+    if (await refExists(localPath, `refs/remotes/${worktreeComparison}`)) {
+      return worktreeComparison;
+    }
+  }
+
   const upstreamRef = await getUpstreamRef(localPath);
   if (upstreamRef) {
     return upstreamRef;
@@ -170,9 +499,14 @@ async function resolveComparisonRef(
 
 async function computeFreshnessDetails(
   localPath: string,
-  currentRef: string
+  currentRef: string,
+  worktreeRef?: string
 ): Promise<RepoFreshnessDetails> {
-  const comparisonRef = await resolveComparisonRef(localPath, currentRef);
+  const comparisonRef = await resolveComparisonRef(
+    localPath,
+    currentRef,
+    worktreeRef
+  );
   if (!comparisonRef) {
     return {
       comparisonRef: null,
@@ -194,28 +528,325 @@ async function computeFreshnessDetails(
   };
 }
 
-async function checkoutIfRequested(
+async function findRefSegmentCount(
   localPath: string,
-  ref: string | undefined,
-  actions: string[]
+  refPathSegments: string[]
+): Promise<number> {
+  for (let count = refPathSegments.length; count > 1; count -= 1) {
+    const candidate = refPathSegments.slice(0, count).join("/");
+    const matches = await Promise.all([
+      refExists(localPath, `refs/remotes/origin/${candidate}`),
+      refExists(localPath, `refs/tags/${candidate}`),
+      refExists(localPath, `refs/heads/${candidate}`),
+    ]);
+    if (matches.some(Boolean)) {
+      return count;
+    }
+  }
+
+  return 1;
+}
+
+async function resolveWebRef(
+  context: EnsureContext
+): Promise<string | undefined> {
+  const { refPathSegments } = context.parsedRepo;
+  if (!refPathSegments) {
+    return;
+  }
+
+  const { ref, subpath } = splitRefPath(
+    refPathSegments,
+    await findRefSegmentCount(context.localPath, refPathSegments)
+  );
+  context.targetSubpath = subpath;
+  return ref;
+}
+
+async function resolveRequestedRef(
+  context: EnsureContext
+): Promise<string | undefined> {
+  const webRef = await resolveWebRef(context);
+  return context.ref ?? webRef;
+}
+
+async function isRefAvailableLocally(
+  localPath: string,
+  ref: string
+): Promise<boolean> {
+  return (
+    (await isCommitResolvable(localPath, ref)) ||
+    (await refExists(localPath, `refs/remotes/origin/${ref}`))
+  );
+}
+
+// Validates before checkout so a typo surfaces as REF_NOT_FOUND with nearby
+// names instead of a raw git pathspec error.
+async function assertRefExists(
+  context: EnsureContext,
+  ref: string
+): Promise<void> {
+  const { localPath } = context;
+  if (await isRefAvailableLocally(localPath, ref)) {
+    return;
+  }
+
+  const listing = await listLocalRefs(localPath);
+  const suggestions = suggestRefNames(ref, [
+    ...listing.branches,
+    ...listing.tags.keys(),
+  ]);
+  const lastFetchedAt = await getLastFetchTime(localPath);
+  const [closest] = suggestions;
+  throw new RepoPluginError(
+    "REF_NOT_FOUND",
+    `Ref not found in local branches, remote-tracking branches, or tags: ${ref}`,
+    [
+      `closest_matches=${suggestions.join(",") || "none"}`,
+      `default_branch=${(await getDefaultBranch(localPath)) ?? "unknown"}`,
+      `last_fetched_at=${lastFetchedAt?.toISOString() ?? "unknown"}`,
+    ].join("\n"),
+    closest
+      ? {
+          category: "not_found",
+          retryable: false,
+          suggested_args: { ref: closest },
+        }
+      : undefined
+  );
+}
+
+async function assertRefAvailableOffline(
+  context: EnsureContext,
+  ref: string | undefined
+): Promise<void> {
+  if (!(context.offline && ref)) {
+    return;
+  }
+
+  if (await isRefAvailableLocally(context.localPath, ref)) {
+    return;
+  }
+
+  throw new RepoPluginError(
+    "OFFLINE_UNAVAILABLE",
+    `Ref is not available locally while offline: ${ref}`,
+    "Run again without offline=true to fetch it"
+  );
+}
+
+// A shallow clone only has history near the branch tips, so an older tag or
+// commit (such as the detached checkout kept by recreate) is fetched by name
+// at the clone's depth.
+async function fetchRefBeyondDepth(
+  context: EnsureContext,
+  ref: string | undefined
+): Promise<void> {
+  const { localPath, mirrorPath } = context;
+  if (
+    !ref ||
+    context.offline ||
+    (await isRefAvailableLocally(localPath, ref)) ||
+    !(await isShallowRepository(localPath))
+  ) {
+    return;
+  }
+
+  const refspec = FULL_SHA_PATTERN.test(ref)
+    ? ref
+    : `+refs/tags/${ref}:refs/tags/${ref}`;
+  if (
+    await fetchOriginRef(localPath, refspec, {
+      depth: context.depth ?? DEFAULT_SHALLOW_DEPTH,
+      ...(mirrorPath ? { mirrorPath } : {}),
+    })
+  ) {
+    context.actions.push(`fetched_${ref}`);
+  }
+}
+
+async function checkoutIfRequested(
+  context: EnsureContext,
+  ref: string | undefined
 ): Promise<void> {
   if (!ref) {
     return;
   }
 
-  await checkoutRef(localPath, ref);
-  actions.push(`checked_out_${ref}`);
+  await assertRefExists(context, ref);
+  await checkoutRef(context.localPath, ref);
+  context.actions.push(`checked_out_${ref}`);
+}
+
+async function applySparseCheckout(
+  context: EnsureContext,
+  cwd: string
+): Promise<void> {
+  const { sparse, actions } = context;
+  if (!sparse) {
+    return;
+  }
+
+  if (sparse === "disable") {
+    if (await getSparseCheckout(cwd)) {
+      await disableSparseCheckout(cwd);
+      actions.push("sparse_checkout_disabled");
+    }
+    return;
+  }
+
+  await setSparseCheckout(cwd, sparse);
+  actions.push("sparse_checkout_set");
+}
+
+async function resolveWorktreeCommit(
+  localPath: string,
+  ref: string
+): Promise<string> {
+  const remoteBranch = `origin/${ref}`;
+  if (await refExists(localPath, `refs/remotes/${remoteBranch}`)) {
+    return remoteBranch;
+  }
+
+  return ref;
+}
+
+async function createRefWorktree(
+  context: EnsureContext,
+  ref: string,
+  commit: string
+): Promise<void> {
+  const { localPath, workPath, sparse, actions } = context;
+  const isSparse = sparse !== undefined && sparse !== "disable";
+  await addDetachedWorktree(localPath, workPath, commit, isSparse);
+  actions.push(`created_worktree_${ref}`);
+  if (isSparse) {
+    await applySparseCheckout(context, workPath);
+    await checkoutDetached(workPath, commit);
+  }
+}
+
+async function restoreStash(
+  context: EnsureContext,
+  cwd: string,
+  stash: RepoStashEntry
+): Promise<void> {
+  if (await applyStash(cwd, stash.sha)) {
+    const stashRef = await findStashRef(cwd, stash.sha);
+    if (stashRef) {
+      await dropStash(cwd, stashRef);
+    }
+    stash.reapplied = true;
+    context.actions.push("reapplied_stash");
+    return;
+  }
+
+  // Leave the tree clean at the new HEAD; the edits stay in the stash.
+  await hardResetTo(cwd, "HEAD");
+  stash.ref = await findStashRef(cwd, stash.sha);
+  context.actions.push("kept_stash_after_conflict");
+}
+
+async function withStashedChanges(
+  context: EnsureContext,
+  cwd: string,
+  update: () => Promise<void>
+): Promise<void> {
+  if (context.mode !== "ff-stash" || !(await isWorktreeDirty(cwd))) {
+    await update();
+    return;
+  }
+
+  const files = await listChangedFiles(cwd);
+  const sha = await stashLocalChanges(
+    cwd,
+    `${STASH_MESSAGE} ${new Date().toISOString()}`
+  );
+  if (!sha) {
+    await update();
+    return;
+  }
+
+  const stash: RepoStashEntry = { sha, ref: null, files, reapplied: false };
+  context.stash = stash;
+  context.actions.push("stashed_local_changes");
+  try {
+    await update();
+  } finally {
+    await restoreStash(context, cwd, stash);
+  }
+}
+
+async function syncRefWorktree(
+  context: EnsureContext,
+  ref: string
+): Promise<RepoEnsureStatus> {
+  const { localPath, mode, actions } = context;
+  await assertRefExists(context, ref);
+  const commit = await resolveWorktreeCommit(localPath, ref);
+  context.worktreeRef = ref;
+  context.workPath = buildWorktreePath(localPath, ref);
+  const { workPath } = context;
+
+  if (await clearBrokenCheckout(context, workPath, `worktree_${ref}`)) {
+    await pruneWorktrees(localPath);
+  }
+
+  if (!(await directoryExists(workPath))) {
+    await createRefWorktree(context, ref, commit);
+    return mode === "fetch-only" ? "fetched" : "updated";
+  }
+
+  await applySparseCheckout(context, workPath);
+  if (mode === "fetch-only") {
+    return context.offline ? "already-current" : "fetched";
+  }
+
+  const beforeSha = await getHeadSha(workPath);
+  context.beforeSha = beforeSha;
+  if (mode === "ff-only" || mode === "ff-stash") {
+    await withStashedChanges(context, workPath, async () => {
+      if (await isWorktreeDirty(workPath)) {
+        throw new RepoPluginError(
+          "DIRTY_WORKTREE",
+          "Cannot update worktree because it has local changes",
+          "Commit/stash changes, or use update_mode=ff-stash or fetch-only"
+        );
+      }
+
+      await checkoutDetached(workPath, commit);
+    });
+  }
+
+  if (mode === "reset-clean") {
+    await hardResetTo(workPath, commit);
+  }
+
+  actions.push(`synced_worktree_${ref}`);
+  const afterSha = await getHeadSha(workPath);
+  return beforeSha === afterSha ? "already-current" : "updated";
+}
+
+function resolveTargetPath(context: EnsureContext): string {
+  if (!context.targetSubpath) {
+    return context.workPath;
+  }
+
+  const targetPath = path.resolve(context.workPath, context.targetSubpath);
+  ensureWithinRoot(context.workPath, targetPath);
+  return targetPath;
 }
 
 async function runFastForward(
   localPath: string,
-  actions: string[]
+  actions: string[],
+  changeRequest: ChangeRequestTarget | null
 ): Promise<void> {
   if (await isWorktreeDirty(localPath)) {
     throw new RepoPluginError(
       "DIRTY_WORKTREE",
       "Cannot fast-forward because working tree has local changes",
-      "Commit/stash changes or use update_mode=fetch-only"
+      "Commit/stash changes, or use update_mode=ff-stash or fetch-only"
     );
   }
 
@@ -225,7 +856,15 @@ async function runFastForward(
     return;
   }
 
-  await pullFfOnlyForBranch(localPath, currentRef);
+  // Change requests are routinely force-pushed, so their branch follows the
+  // fetched head instead of fast-forwarding.
+  if (changeRequest?.localBranch === currentRef) {
+    await resetKeepTo(localPath, changeRequest.trackingRef);
+    actions.push(`reset_to_${currentRef}`);
+    return;
+  }
+
+  await fastForwardToOriginBranch(localPath, currentRef);
   actions.push(`fast_forwarded_${currentRef}`);
 }
 
@@ -247,7 +886,7 @@ async function runResetClean(
 
 async function ensureExistingCloneMatchesRemote(
   localPath: string,
-  requestedRepo: ReturnType<typeof parseRepoUrl>
+  requestedRepo: ParsedRepoUrl
 ): Promise<void> {
   if (!(await isGitRepository(localPath))) {
     throw new RepoPluginError(
@@ -269,89 +908,1028 @@ async function ensureExistingCloneMatchesRemote(
   );
 }
 
-async function cloneMissingRepo(
-  localPath: string,
-  primaryRepoUrl: string,
-  fallbackRepoUrl: string | null,
-  depth: number | undefined,
-  ref: string | undefined,
-  actions: string[]
-): Promise<RepoEnsureStatus> {
+async function withAuthFallback(
+  context: EnsureContext,
+  attempt: (url: string) => Promise<void>
+): Promise<string> {
+  const { primaryUrl, fallbackUrl } = context.remotePlan;
   try {
-    await cloneRepo(primaryRepoUrl, localPath, depth);
+    await attempt(primaryUrl);
+    return primaryUrl;
   } catch (error) {
     const parsedError = toRepoPluginError(error);
-    const canFallback = parsedError.code === "GIT_AUTH" && fallbackRepoUrl;
+    const canFallback =
+      AUTH_FALLBACK_CODES.has(parsedError.code) && fallbackUrl;
     if (!canFallback) {
       throw error;
     }
 
-    await rm(localPath, { force: true, recursive: true });
-    await cloneRepo(fallbackRepoUrl, localPath, depth);
-    actions.push("auth_fallback_to_ssh");
+    await attempt(fallbackUrl);
+    context.actions.push("auth_fallback_to_ssh");
+    return fallbackUrl;
   }
-
-  actions.push("cloned_repository");
-  await checkoutIfRequested(localPath, ref, actions);
-  return "cloned";
 }
 
-async function updateExistingRepo(
-  localPath: string,
-  requestedRepo: ReturnType<typeof parseRepoUrl>,
-  primaryRepoUrl: string,
-  fallbackRepoUrl: string | null,
-  authMode: AuthMode,
-  mode: UpdateMode,
-  ref: string | undefined,
-  actions: string[]
-): Promise<RepoEnsureStatus> {
-  await ensureExistingCloneMatchesRemote(localPath, requestedRepo);
-
-  const configuredOriginUrl = await getOriginUrl(localPath);
-  if (authMode !== "auto" && configuredOriginUrl !== primaryRepoUrl) {
-    await setOriginUrl(localPath, primaryRepoUrl);
-    actions.push(`set_origin_${authMode}`);
-  }
-
-  const beforeSha = await getHeadSha(localPath);
+// Clones land next to the final path and are renamed only once they succeed,
+// so an interrupted clone never leaves a half-written directory behind.
+async function cloneViaStaging(
+  targetPath: string,
+  clone: (stagingPath: string) => Promise<unknown>
+): Promise<void> {
+  const stagingPath = buildStagingPath(targetPath);
   try {
-    await fetchOrigin(localPath);
+    await clone(stagingPath);
+    await rename(stagingPath, targetPath);
   } catch (error) {
-    const parsedError = toRepoPluginError(error);
-    const canFallback = parsedError.code === "GIT_AUTH" && fallbackRepoUrl;
-    if (!canFallback) {
-      throw error;
-    }
-
-    await setOriginUrl(localPath, fallbackRepoUrl);
-    actions.push("auth_fallback_to_ssh");
-    await fetchOrigin(localPath);
-  }
-  actions.push("fetched_origin");
-
-  await checkoutIfRequested(localPath, ref, actions);
-
-  if (mode === "ff-only") {
-    await runFastForward(localPath, actions);
+    await rm(stagingPath, { force: true, recursive: true });
+    throw error;
   }
+}
 
-  if (mode === "reset-clean") {
-    await runResetClean(localPath, actions);
+async function cloneOrFetchMirror(
+  mirrorPath: string,
+  context: EnsureContext
+): Promise<void> {
+  await removeStagingSiblings(mirrorPath);
+  if (!(await directoryExists(mirrorPath))) {
+    await cloneViaStaging(mirrorPath, (stagingPath) =>
+      withAuthFallback(context, async (url) => {
+        await rm(stagingPath, { force: true, recursive: true });
+        await cloneMirror(url, stagingPath);
+      })
+    );
+    context.actions.push("created_mirror");
+    return;
   }
 
-  if (mode === "fetch-only") {
-    return "fetched";
-  }
+  // Failures surface: fetching the stale mirror instead would record a fresh
+  // fetch time and serve old refs as current for the whole TTL. Offline
+  // calls never get here and read the mirror as it is.
+  await withAuthFallback(context, async (url) => {
+    await setOriginUrl(mirrorPath, url);
+    await fetchMirror(mirrorPath);
+  });
+  context.actions.push("refreshed_mirror");
+}
 
-  const afterSha = await getHeadSha(localPath);
-  return beforeSha === afterSha ? "already-current" : "updated";
+function syncMirror(mirrorPath: string, context: EnsureContext): Promise<void> {
+  return withRepoLock(mirrorPath, () =>
+    cloneOrFetchMirror(mirrorPath, context)
+  );
+}
+
+async function cloneThroughMirror(
+  context: EnsureContext,
+  mirrorPath: string,
+  targetPath: string,
+  cloneOptions: CloneOptions
+): Promise<void> {
+  if (!context.offline) {
+    await syncMirror(mirrorPath, context);
+  }
+  const source =
+    cloneOptions.strategy === "full"
+      ? mirrorPath
+      : pathToFileURL(mirrorPath).href;
+  await cloneRepo(source, targetPath, cloneOptions);
+  await setOriginUrl(targetPath, await getOriginUrl(mirrorPath));
+  context.actions.push("cloned_from_mirror");
+}
+
+async function cloneMissingRepo(
+  context: EnsureContext
+): Promise<RepoEnsureStatus> {
+  const { localPath, mirrorPath, depth, sparse, actions } = context;
+  const isSparse = sparse !== undefined && sparse !== "disable";
+  const cloneOptions: CloneOptions = {
+    strategy: context.cloneStrategy ?? (isSparse ? "blobless" : "full"),
+    depth,
+    sparse: isSparse,
+  };
+  if (context.mode === "probe") {
+    throw new RepoPluginError(
+      "REPO_NOT_CLONED",
+      `Repository is not cloned under clone root: ${context.parsedRepo.canonicalUrl}`,
+      "Call again without update_mode=probe to clone it"
+    );
+  }
+
+  if (context.offline && !(mirrorPath && (await directoryExists(mirrorPath)))) {
+    throw new RepoPluginError(
+      "OFFLINE_UNAVAILABLE",
+      `Repository is not available locally while offline: ${context.parsedRepo.canonicalUrl}`,
+      `expected_path=${localPath}`
+    );
+  }
+
+  await cloneViaStaging(localPath, async (stagingPath) => {
+    if (mirrorPath) {
+      await cloneThroughMirror(context, mirrorPath, stagingPath, cloneOptions);
+      return;
+    }
+
+    await withAuthFallback(context, async (url) => {
+      await rm(stagingPath, { force: true, recursive: true });
+      await cloneRepo(url, stagingPath, cloneOptions);
+    });
+  });
+
+  if (!context.offline) {
+    await recordFetchTime(localPath);
+  }
+  actions.push("cloned_repository");
+  await fetchChangeRequest(context);
+  const ref = await resolveRequestedRef(context);
+  await fetchRefBeyondDepth(context, ref);
+  await assertRefAvailableOffline(context, ref);
+  if (context.useWorktree && ref) {
+    await syncRefWorktree(context, ref);
+    return "cloned";
+  }
+
+  await applySparseCheckout(context, localPath);
+  await checkoutIfRequested(context, ref);
+  return "cloned";
+}
+
+async function resolveFetchOptions(
+  context: EnsureContext
+): Promise<FetchOptions> {
+  const { cloneStrategy } = context;
+  if (!(cloneStrategy && (await isShallowRepository(context.localPath)))) {
+    return {};
+  }
+
+  if (cloneStrategy === "shallow") {
+    return context.depth === undefined ? {} : { depth: context.depth };
+  }
+
+  return { unshallow: true };
+}
+
+// Offline, the clone still takes whatever the mirror already holds, but the
+// mirror is not refreshed and the fetch time is kept, since nothing was
+// checked against the network.
+async function fetchExistingRepo(context: EnsureContext): Promise<void> {
+  const { localPath, mirrorPath, actions } = context;
+  const { primaryUrl } = context.remotePlan;
+  const fetchOptions = await resolveFetchOptions(context);
+  if (fetchOptions.unshallow) {
+    await setRemoteTrackAllBranches(localPath);
+  }
+  if (mirrorPath) {
+    if (!context.offline) {
+      await syncMirror(mirrorPath, context);
+    }
+    await fetchOrigin(localPath, {
+      ...fetchOptions,
+      mirrorPath,
+      writeFetchHead: !context.offline,
+    });
+    actions.push("fetched_from_mirror");
+  } else {
+    await withAuthFallback(context, async (url) => {
+      if (url !== primaryUrl) {
+        await setOriginUrl(localPath, url);
+      }
+      await fetchOrigin(localPath, fetchOptions);
+    });
+    actions.push("fetched_origin");
+  }
+  if (!context.offline) {
+    await recordFetchTime(localPath);
+  }
+  if (fetchOptions.unshallow) {
+    actions.push("unshallowed_repository");
+  }
+}
+
+async function isFetchCached(context: EnsureContext): Promise<boolean> {
+  const { localPath, fetchTtlSeconds } = context;
+  if (context.forceFetch || fetchTtlSeconds === 0) {
+    return false;
+  }
+
+  const lastFetchedAt = await getLastFetchTime(localPath);
+  if (
+    !lastFetchedAt ||
+    Date.now() - lastFetchedAt.getTime() > fetchTtlSeconds * 1000
+  ) {
+    return false;
+  }
+
+  if ((await resolveFetchOptions(context)).unshallow) {
+    return false;
+  }
+
+  const ref = context.ref ?? context.parsedRepo.ref;
+  return !ref || (await isRefAvailableLocally(localPath, ref));
+}
+
+async function probeRemoteRef(
+  context: EnsureContext,
+  name: string
+): Promise<string | null> {
+  const { changeRequest } = context;
+  const remoteName =
+    changeRequest?.localBranch === name ? changeRequest.remoteRef : name;
+  let remoteSha: string | null = null;
+  await withAuthFallback(context, async (url) => {
+    remoteSha = await getRemoteRefSha(url, remoteName);
+  });
+  context.actions.push(`probed_remote_${name}`);
+  return remoteSha;
+}
+
+// Compares the remote tip (via ls-remote) with what the last fetch recorded,
+// so staleness is known without transferring objects or touching refs.
+async function probeFreshness(
+  context: EnsureContext,
+  ref: string | undefined
+): Promise<RepoFreshnessDetails> {
+  const { localPath } = context;
+  if (context.useWorktree && ref) {
+    const worktreePath = buildWorktreePath(localPath, ref);
+    if (await directoryExists(worktreePath)) {
+      context.workPath = worktreePath;
+      context.worktreeRef = ref;
+    }
+  }
+
+  const { workPath, worktreeRef } = context;
+  const currentRef = await getCurrentRef(workPath);
+  const local = await computeFreshnessDetails(
+    workPath,
+    currentRef,
+    worktreeRef
+  );
+  const name =
+    ref ??
+    (local.comparisonRef?.startsWith(ORIGIN_PREFIX)
+      ? local.comparisonRef.slice(ORIGIN_PREFIX.length)
+      : undefined);
+  if (!name) {
+    return local;
+  }
+
+  const remoteSha = await probeRemoteRef(context, name);
+  const trackingRef = `${ORIGIN_PREFIX}${name}`;
+  if (
+    local.comparisonRef === trackingRef &&
+    remoteSha === local.remoteHeadSha
+  ) {
+    return local;
+  }
+
+  const trackingSha = await getRefSha(workPath, trackingRef);
+  const knownSha =
+    trackingSha ?? (await getRefSha(workPath, `${name}^{commit}`));
+  return {
+    comparisonRef: trackingSha ? trackingRef : name,
+    remoteHeadSha: remoteSha,
+    aheadBy: null,
+    behindBy: null,
+    freshness:
+      remoteSha !== null && remoteSha === knownSha ? "current" : "stale",
+  };
+}
+
+// The change request head is also copied to origin/<local branch>, so
+// checkout and freshness treat it like any other remote branch until a plain
+// fetch prunes it again. Mirrors hold branches and tags only, so request refs
+// come from origin.
+async function fetchChangeRequest(context: EnsureContext): Promise<void> {
+  const { changeRequest: target, localPath } = context;
+  if (!target || context.offline) {
+    return;
+  }
+
+  const found = await fetchOriginRef(
+    localPath,
+    `+${target.remoteRef}:${target.trackingRef}`
+  );
+  if (!found) {
+    throw new RepoPluginError(
+      "REF_NOT_FOUND",
+      `Change request #${target.number} was not found on the remote`,
+      `remote_ref=${target.remoteRef}`
+    );
+  }
+
+  await updateRef(
+    localPath,
+    `refs/remotes/origin/${target.localBranch}`,
+    target.trackingRef
+  );
+  context.actions.push(`fetched_${target.localBranch}`);
+  // A branch left behind by an earlier checkout would otherwise be checked
+  // out at its old, possibly force-pushed-over, head.
+  const branchRef = `refs/heads/${target.localBranch}`;
+  if (
+    (await refExists(localPath, branchRef)) &&
+    (await getCurrentRef(localPath)) !== target.localBranch
+  ) {
+    await forceBranchTo(localPath, target.localBranch, target.trackingRef);
+  }
+
+  // A missing merge ref (conflicts, or a closed request) must not leave an
+  // older one behind to be read as the current base.
+  const { mergeTrackingRef } = target;
+  const mergeFound = await fetchOriginRef(
+    localPath,
+    `+${target.mergeRef}:${mergeTrackingRef}`
+  );
+  if (!mergeFound && (await refExists(localPath, mergeTrackingRef))) {
+    await deleteRef(localPath, mergeTrackingRef);
+  }
+}
+
+// Plain fetches prune origin/<change request branch>, so a clone left on such
+// a branch keeps following its change request when no ref is named.
+async function adoptCheckedOutChangeRequest(
+  context: EnsureContext
+): Promise<void> {
+  const { parsedRepo } = context;
+  if (
+    context.changeRequest ||
+    context.ref !== undefined ||
+    parsedRepo.refPathSegments
+  ) {
+    return;
+  }
+
+  const currentRef = await getCurrentRef(context.localPath);
+  const request = parseChangeRequestRef(currentRef, parsedRepo);
+  if (!request) {
+    return;
+  }
+
+  try {
+    const target = resolveChangeRequestTarget(request, parsedRepo.host);
+    if (target.localBranch === currentRef) {
+      context.changeRequest = target;
+    }
+  } catch {
+    // Hosts without change request refs treat the branch as a plain branch.
+  }
+}
+
+async function updateExistingRepo(
+  context: EnsureContext
+): Promise<RepoEnsureStatus> {
+  const { localPath, mirrorPath, parsedRepo, mode, actions } = context;
+  const { authMode, primaryUrl } = context.remotePlan;
+  await ensureExistingCloneMatchesRemote(localPath, parsedRepo);
+  await adoptCheckedOutChangeRequest(context);
+  if (mode === "probe") {
+    const ref = await resolveRequestedRef(context);
+    context.probedFreshness = await probeFreshness(context, ref);
+    return "probed";
+  }
+
+  const configuredOriginUrl = await getOriginUrl(localPath);
+  if (authMode !== "auto" && configuredOriginUrl !== primaryUrl) {
+    await setOriginUrl(localPath, primaryUrl);
+    actions.push(`set_origin_${authMode}`);
+  }
+
+  const beforeSha = await getHeadSha(localPath);
+  if (context.offline) {
+    actions.push("offline_skipped_fetch");
+    if (mirrorPath && (await directoryExists(mirrorPath))) {
+      await fetchExistingRepo(context);
+    }
+  } else if (await isFetchCached(context)) {
+    context.fetchCached = true;
+    actions.push("fetch_skipped_ttl");
+  } else {
+    await fetchExistingRepo(context);
+    await fetchChangeRequest(context);
+  }
+
+  const ref = await resolveRequestedRef(context);
+  await assertRefAvailableOffline(context, ref);
+  if (context.useWorktree && ref) {
+    return syncRefWorktree(context, ref);
+  }
+
+  context.beforeSha = beforeSha;
+  await withStashedChanges(context, localPath, async () => {
+    await applySparseCheckout(context, localPath);
+    await checkoutIfRequested(context, ref);
+
+    if (mode === "ff-only" || mode === "ff-stash") {
+      await runFastForward(localPath, actions, context.changeRequest);
+    }
+
+    if (mode === "reset-clean") {
+      await runResetClean(localPath, actions);
+    }
+  });
+
+  if (mode === "fetch-only" && !(context.offline || context.fetchCached)) {
+    return "fetched";
+  }
+
+  const afterSha = await getHeadSha(localPath);
+  return beforeSha === afterSha ? "already-current" : "updated";
+}
+
+function buildInstructions(
+  localPath: string,
+  targetPath: string,
+  cloneStrategy: CloneStrategy,
+  changeRequest: RepoChangeRequest | null,
+  lfs: RepoLfsStatus | null
+): string[] {
+  const instructions = [
+    `Use built-in tools with local_path: ${localPath}`,
+    `Example: run Grep/Read/Glob with files under ${localPath}`,
+  ];
+  if (targetPath !== localPath) {
+    instructions.push(`The requested URL points to: ${targetPath}`);
+  }
+  if (changeRequest?.merge_base_sha) {
+    instructions.push(
+      `Review exactly what the change request adds with: git diff ${changeRequest.merge_base_sha}...HEAD`
+    );
+  }
+  if (changeRequest?.base_ref_source === "default_branch_guess") {
+    instructions.push(
+      `The change request's target branch is unknown; ${changeRequest.base_ref} is assumed. Check the request's base branch before relying on the diff.`
+    );
+  }
+  if (cloneStrategy === "blobless" || cloneStrategy === "treeless") {
+    instructions.push(
+      "This is a partial clone: history-reading commands such as git log -p or git blame may trigger lazy fetches from origin."
+    );
+  }
+  if (cloneStrategy === "shallow") {
+    instructions.push(
+      "This is a shallow clone: history is truncated. Call repo_ensure_local again with clone_strategy=full to unshallow it."
+    );
+  }
+  if (lfs && lfs.pointer_files > 0) {
+    instructions.push(
+      lfs.lfs_available
+        ? `${lfs.pointer_files} Git LFS files are pointer stubs, not real content. Do not analyze them; call repo_ensure_local again with lfs=pull (or lfs=include-patterns) to download them.`
+        : `${lfs.pointer_files} Git LFS files are pointer stubs, not real content, and git-lfs is not installed. Do not analyze them; install git-lfs to download them.`
+    );
+  }
+
+  return instructions;
+}
+
+async function summarizeRange(
+  cwd: string,
+  from: string,
+  to: string
+): Promise<RepoChangeSummary> {
+  const commits = await getCommitLog(cwd, from, to, MAX_SUMMARY_COMMITS);
+  const commitCount = await countCommits(cwd, from, to);
+  const files = await getChangedFilesBetween(cwd, from, to);
+  return {
+    from_sha: from,
+    to_sha: to,
+    commit_count: commitCount,
+    commits,
+    commits_truncated: commitCount > commits.length,
+    files: files.slice(0, MAX_SUMMARY_FILES),
+    files_truncated: files.length > MAX_SUMMARY_FILES,
+  };
+}
+
+// Updates summarize what moved HEAD; fetch-only summarizes what is waiting
+// on the comparison ref.
+function buildChangeSummary(
+  context: EnsureContext,
+  headSha: string,
+  freshness: RepoFreshnessDetails
+): Promise<RepoChangeSummary | null> {
+  const { workPath, beforeSha } = context;
+  if (beforeSha && beforeSha !== headSha) {
+    return summarizeRange(workPath, beforeSha, headSha);
+  }
+
+  const { remoteHeadSha, behindBy } = freshness;
+  if (context.mode === "fetch-only" && remoteHeadSha && (behindBy ?? 0) > 0) {
+    return summarizeRange(workPath, headSha, remoteHeadSha);
+  }
+
+  return Promise.resolve(null);
+}
+
+async function holdsLocalFiles(
+  checkoutPath: string,
+  damage: CheckoutDamage
+): Promise<boolean> {
+  if (damage !== "corrupt_head") {
+    return (await readdir(checkoutPath)).length > 0;
+  }
+
+  return isWorktreeDirty(checkoutPath).catch(() => true);
+}
+
+// A broken checkout is replaced only when it cannot hold work: empty, or clean
+// with just HEAD unreadable. Anything else is moved aside, and probe and
+// offline calls, which cannot reclone it, fail instead of touching it.
+async function clearBrokenCheckout(
+  context: EnsureContext,
+  checkoutPath: string,
+  subject: string
+): Promise<boolean> {
+  if (!(await directoryExists(checkoutPath))) {
+    return false;
+  }
+  const damage = await findCheckoutDamage(checkoutPath);
+  if (!damage) {
+    return false;
+  }
+
+  if (context.mode === "probe" || context.offline) {
+    throw new RepoPluginError(
+      "NOT_GIT_REPO",
+      `Existing checkout is broken (${damage}): ${checkoutPath}`,
+      "Call again without update_mode=probe or offline=true to replace it"
+    );
+  }
+
+  if (await holdsLocalFiles(checkoutPath, damage)) {
+    await rename(checkoutPath, buildBrokenPath(checkoutPath));
+    context.actions.push(`moved_aside_broken_${subject}`);
+  } else {
+    await rm(checkoutPath, { force: true, recursive: true });
+    context.actions.push(`removed_broken_${subject}`);
+  }
+  return true;
+}
+
+// Unlike holdsLocalFiles this also counts stashes (such as a kept ff-stash)
+// and unpushed commits; a clone git cannot answer for counts as holding work.
+async function holdsLocalWork(clonePath: string): Promise<boolean> {
+  try {
+    return (
+      (await isWorktreeDirty(clonePath)) ||
+      (await countStashEntries(clonePath)) > 0 ||
+      (await getUnpushedCommitCount(clonePath)) > 0
+    );
+  } catch {
+    return true;
+  }
+}
+
+// Linked worktrees live in the clone's .git and would be orphaned by
+// replacing it. Clean ones are removed and come back on the next request for
+// their ref; one with local changes, or outside the clone's directory, stops
+// the recreate before anything is touched.
+async function removeLinkedWorktrees(context: EnsureContext): Promise<void> {
+  const { localPath, actions } = context;
+  const cloneDir = path.dirname(
+    await realpath(localPath).catch(() => localPath)
+  );
+  const worktreePaths = await listWorktreePaths(localPath);
+  for (const worktreePath of worktreePaths) {
+    if (path.dirname(worktreePath) !== cloneDir) {
+      throw new RepoPluginError(
+        "PATH_VIOLATION",
+        `Cannot recreate a clone with a worktree outside its directory: ${worktreePath}`,
+        "Remove the worktree with git worktree remove, then call again"
+      );
+    }
+    if (await isWorktreeDirty(worktreePath).catch(() => true)) {
+      throw new RepoPluginError(
+        "DIRTY_WORKTREE",
+        `Cannot recreate clone while its worktree has local changes: ${worktreePath}`,
+        "Commit or discard the changes in the worktree, then call again"
+      );
+    }
+  }
+
+  for (const worktreePath of worktreePaths) {
+    await removeWorktree(localPath, worktreePath);
+    actions.push(`removed_worktree_${path.basename(worktreePath)}`);
+  }
+}
+
+async function findRecreateReason(
+  context: EnsureContext
+): Promise<"corrupt" | "requested" | null> {
+  const { localPath, actions } = context;
+  if (context.verify) {
+    if (await findIntegrityProblems(localPath)) {
+      actions.push("verification_failed");
+      return "corrupt";
+    }
+    actions.push("verified_clone");
+  }
+
+  return context.mode === "recreate" ? "requested" : null;
+}
+
+// Keeps the shape of the clone being replaced unless the call overrides it,
+// including the depth of a shallow clone and a detached tag or commit.
+async function inheritCloneSettings(context: EnsureContext): Promise<void> {
+  const { localPath } = context;
+  context.cloneStrategy ??= await getCloneStrategy(localPath).catch(
+    () => undefined
+  );
+  if (context.cloneStrategy === "shallow" && context.depth === undefined) {
+    const depth = await getShallowDepth(localPath).catch(() => null);
+    context.depth = depth ?? undefined;
+  }
+  if (context.sparse === undefined) {
+    const sparse = await getSparseCheckout(localPath).catch(() => null);
+    context.sparse = sparse ?? undefined;
+  }
+  if (context.ref === undefined && !context.parsedRepo.refPathSegments) {
+    const currentRef = await getCurrentRef(localPath).catch(() => "HEAD");
+    const defaultBranch = await getDefaultBranch(localPath).catch(() => null);
+    if (currentRef === "HEAD") {
+      context.ref = (await findDetachedRef(localPath)) ?? undefined;
+    } else if (currentRef !== defaultBranch) {
+      context.ref = currentRef;
+    }
+  }
+}
+
+async function findDetachedRef(localPath: string): Promise<string | null> {
+  const tag = await getTagAtHead(localPath).catch(() => null);
+  return tag ?? getRefSha(localPath, "HEAD");
+}
+
+async function recreateCloneIfNeeded(context: EnsureContext): Promise<void> {
+  const { localPath, mirrorPath, actions } = context;
+  if (!(await directoryExists(localPath))) {
+    return;
+  }
+
+  // probe never modifies the clone; a failed verification is only reported.
+  const reason = await findRecreateReason(context);
+  if (!reason || context.mode === "probe") {
+    return;
+  }
+
+  if (context.offline && !(mirrorPath && (await directoryExists(mirrorPath)))) {
+    throw new RepoPluginError(
+      "OFFLINE_UNAVAILABLE",
+      "Cannot recreate clone while offline without a local mirror",
+      `local_path=${localPath}`
+    );
+  }
+
+  await inheritCloneSettings(context);
+  await removeLinkedWorktrees(context);
+  const subject = reason === "corrupt" ? "corrupt_clone" : "clone_for_recreate";
+  if (await holdsLocalWork(localPath)) {
+    await rename(localPath, buildBrokenPath(localPath));
+    actions.push(`moved_aside_${subject}`);
+  } else {
+    await rm(localPath, { force: true, recursive: true });
+    actions.push(`removed_${subject}`);
+  }
+}
+
+async function listSelectableRefs(context: EnsureContext): Promise<RefListing> {
+  if (context.offline) {
+    for (const source of [context.localPath, context.mirrorPath]) {
+      if (source && (await directoryExists(source))) {
+        return listLocalRefs(source);
+      }
+    }
+
+    throw new RepoPluginError(
+      "OFFLINE_UNAVAILABLE",
+      `Cannot resolve ref selector while offline without a local clone: ${context.ref}`,
+      `expected_path=${context.localPath}`
+    );
+  }
+
+  let listing: RefListing = { branches: [], tags: new Map() };
+  await withAuthFallback(context, async (url) => {
+    listing = await listRemoteRefs(url);
+  });
+  return listing;
+}
+
+// Branches or tags literally named like a selector (for example a "2.x"
+// maintenance branch) win over range resolution.
+async function resolveRefSelector(context: EnsureContext): Promise<void> {
+  const { ref } = context;
+  if (!(ref && parseTagSelector(ref))) {
+    return;
+  }
+
+  const listing = await listSelectableRefs(context);
+  if (listing.branches.includes(ref) || listing.tags.has(ref)) {
+    return;
+  }
+
+  const tag = resolveTagSelector(ref, [...listing.tags.keys()]);
+  if (!tag) {
+    return;
+  }
+
+  context.ref = tag;
+  context.resolvedRef = {
+    selector: ref,
+    tag,
+    sha: listing.tags.get(tag) ?? null,
+  };
+  context.actions.push(`resolved_ref_${tag}`);
+}
+
+// The host's merge ref knows the request's real target branch. Without it
+// the default branch is only a guess: requests can target any branch.
+async function resolveChangeRequestBase(
+  context: EnsureContext,
+  target: ChangeRequestTarget
+): Promise<{
+  baseRef: string | null;
+  baseRefSource: RepoChangeRequestBaseSource | null;
+}> {
+  const mergeBase = `${target.mergeTrackingRef}^1`;
+  if (await getRefSha(context.workPath, mergeBase)) {
+    return { baseRef: mergeBase, baseRefSource: "merge_ref" };
+  }
+
+  const defaultBranch = await getDefaultBranch(context.localPath);
+  return defaultBranch
+    ? {
+        baseRef: `origin/${defaultBranch}`,
+        baseRefSource: "default_branch_guess",
+      }
+    : { baseRef: null, baseRefSource: null };
+}
+
+async function describeChangeRequest(
+  context: EnsureContext,
+  headSha: string
+): Promise<RepoChangeRequest | null> {
+  const target = context.changeRequest;
+  if (!target) {
+    return null;
+  }
+
+  const { baseRef, baseRefSource } = await resolveChangeRequestBase(
+    context,
+    target
+  );
+  return {
+    kind: target.kind,
+    number: target.number,
+    remote_ref: target.remoteRef,
+    local_branch: target.localBranch,
+    head_sha: headSha,
+    base_ref: baseRef,
+    base_ref_source: baseRefSource,
+    merge_base_sha: baseRef
+      ? await getMergeBase(context.workPath, "HEAD", baseRef)
+      : null,
+  };
+}
+
+function planSubmoduleRemote(
+  context: EnsureContext,
+  url: string
+): RepoRemotePlan | null {
+  let parsed: ParsedRepoUrl;
+  try {
+    parsed = parseRepoUrl(url, true);
+  } catch {
+    return null;
+  }
+
+  if (parsed.host !== context.parsedRepo.host) {
+    return null;
+  }
+  return resolveRepoRemotePlan(parsed, context.remotePlan.authMode);
+}
+
+// Submodules on the repository's host get the same HTTPS/SSH plan as origin,
+// so a clone that needed SSH does not fail on HTTPS submodule URLs. Relative
+// URLs and other hosts are left to git.
+async function syncSubmodules(context: EnsureContext): Promise<void> {
+  const { submodules: mode, workPath, actions } = context;
+  if (mode === "none") {
+    return;
+  }
+
+  const entries = await listSubmoduleConfig(workPath);
+  if (entries.length === 0) {
+    return;
+  }
+
+  await initSubmodules(workPath);
+  const originUsesSsh = SSH_URL_PATTERN.test(
+    await getOriginUrl(context.localPath)
+  );
+  const plans = entries.flatMap((entry) => {
+    const plan = planSubmoduleRemote(context, entry.url);
+    return plan ? [{ entry, plan }] : [];
+  });
+  const pointSubmodulesAt = async (useFallback: boolean) => {
+    for (const { entry, plan } of plans) {
+      const url =
+        (useFallback || originUsesSsh) && plan.fallbackUrl
+          ? plan.fallbackUrl
+          : plan.primaryUrl;
+      await setSubmoduleUrl(workPath, entry.name, url);
+      const checkoutPath = path.join(workPath, entry.path);
+      if (await isHealthyClone(checkoutPath)) {
+        await setOriginUrl(checkoutPath, url);
+      }
+    }
+  };
+
+  const options: SubmoduleUpdateOptions = {
+    recursive: mode === "recursive",
+    depth: mode === "shallow" ? SHALLOW_SUBMODULE_DEPTH : undefined,
+    noFetch: context.offline,
+  };
+  await pointSubmodulesAt(false);
+  try {
+    await updateSubmodules(workPath, options);
+  } catch (error) {
+    const canFallback =
+      AUTH_FALLBACK_CODES.has(toRepoPluginError(error).code) &&
+      !originUsesSsh &&
+      plans.some(({ plan }) => plan.fallbackUrl);
+    if (!canFallback) {
+      throw error;
+    }
+
+    await pointSubmodulesAt(true);
+    await updateSubmodules(workPath, options);
+    actions.push("submodule_auth_fallback_to_ssh");
+  }
+  actions.push(`updated_submodules_${mode}`);
+}
+
+async function describeSubmodules(
+  context: EnsureContext
+): Promise<RepoSubmodule[]> {
+  const { workPath } = context;
+  const configuredUrls = new Map(
+    (await listSubmoduleConfig(workPath)).map((entry) => [
+      entry.path,
+      entry.url,
+    ])
+  );
+  if (configuredUrls.size === 0) {
+    return [];
+  }
+
+  const submodules: RepoSubmodule[] = [];
+  const statuses = await listSubmoduleStatus(
+    workPath,
+    context.submodules === "recursive"
+  );
+  for (const status of statuses) {
+    const configuredUrl = configuredUrls.get(status.path) ?? null;
+    const url = status.initialized
+      ? await getOriginUrl(path.join(workPath, status.path)).catch(
+          () => configuredUrl
+        )
+      : configuredUrl;
+    submodules.push({
+      path: status.path,
+      url,
+      sha: status.sha,
+      initialized: status.initialized,
+    });
+  }
+
+  return submodules;
+}
+
+// Only an explicit skip, or a download limited to lfs_include, turns off the
+// smudge filter that would otherwise fetch every LFS file during clone and
+// checkout. `git lfs pull` is unaffected.
+function buildLfsEnv(lfs: LfsRequest): Record<string, string> {
+  return lfs.mode === "skip" || lfs.mode === "include-patterns"
+    ? { GIT_LFS_SKIP_SMUDGE: "1" }
+    : {};
+}
+
+async function syncLfs(context: EnsureContext): Promise<void> {
+  const { lfs, workPath, actions } = context;
+  if (lfs.mode === "auto" || lfs.mode === "skip") {
+    return;
+  }
+
+  if ((await listLfsTrackedFiles(workPath)).length === 0) {
+    return;
+  }
+
+  if (!(await isLfsAvailable())) {
+    throw new RepoPluginError(
+      "LFS_UNAVAILABLE",
+      "Repository uses Git LFS but git-lfs is not installed",
+      "Install git-lfs (https://git-lfs.com) or call again with lfs=skip to keep pointer files"
+    );
+  }
+
+  if (context.offline) {
+    await checkoutLfs(workPath, lfs.include);
+    actions.push("lfs_checked_out_offline");
+    return;
+  }
+
+  await pullLfs(workPath, lfs.include);
+  actions.push(lfs.mode === "pull" ? "lfs_pulled" : "lfs_pulled_included");
+}
+
+async function describeLfs(
+  context: EnsureContext
+): Promise<RepoLfsStatus | null> {
+  const { workPath } = context;
+  const patterns = await readLfsPatterns(workPath);
+  const trackedFiles = await listLfsTrackedFiles(workPath);
+  if (patterns.length === 0 && trackedFiles.length === 0) {
+    return null;
+  }
+
+  const pointers = await findLfsPointerFiles(workPath, trackedFiles);
+  return {
+    patterns,
+    tracked_files: trackedFiles.length,
+    pointer_files: pointers.length,
+    pointer_examples: pointers.slice(0, MAX_POINTER_EXAMPLES),
+    lfs_available: await isLfsAvailable(),
+  };
+}
+
+async function ensureLockedRepo(
+  context: EnsureContext
+): Promise<RepoEnsureResult> {
+  const { localPath, mirrorPath } = context;
+  await removeStagingSiblings(localPath);
+  await clearBrokenCheckout(context, localPath, "clone");
+  await recreateCloneIfNeeded(context);
+  await resolveRefSelector(context);
+  const status = (await directoryExists(localPath))
+    ? await updateExistingRepo(context)
+    : await cloneMissingRepo(context);
+  if (context.mode !== "probe") {
+    await syncSubmodules(context);
+    await syncLfs(context);
+  }
+
+  const { workPath, worktreeRef } = context;
+  const currentRef = await getCurrentRef(workPath);
+  const freshness =
+    context.probedFreshness ??
+    (await computeFreshnessDetails(workPath, currentRef, worktreeRef));
+  const targetPath = resolveTargetPath(context);
+  const effectiveCloneStrategy = await getCloneStrategy(localPath);
+  const lastFetchedAt = await getLastFetchTime(localPath);
+  const headSha = await getHeadSha(workPath);
+  const changeRequest = await describeChangeRequest(context, headSha);
+  const lfs = await describeLfs(context);
+
+  return {
+    status,
+    repo_url: parseRepoUrl(await getOriginUrl(localPath), true).canonicalUrl,
+    local_path: workPath,
+    current_ref: currentRef,
+    default_branch: await getDefaultBranch(localPath),
+    head_sha: headSha,
+    comparison_ref: freshness.comparisonRef,
+    remote_head_sha: freshness.remoteHeadSha,
+    ahead_by: freshness.aheadBy,
+    behind_by: freshness.behindBy,
+    freshness: freshness.freshness,
+    last_fetched_at: lastFetchedAt ? lastFetchedAt.toISOString() : null,
+    last_fetch_age_seconds: lastFetchedAt
+      ? Math.floor((Date.now() - lastFetchedAt.getTime()) / 1000)
+      : null,
+    fetch_cached: context.fetchCached,
+    target_path: targetPath,
+    worktree_of: worktreeRef ? localPath : null,
+    mirror_path: mirrorPath,
+    clone_strategy: effectiveCloneStrategy,
+    sparse_checkout: await getSparseCheckout(workPath),
+    stash: context.stash,
+    changes: await buildChangeSummary(context, headSha, freshness),
+    resolved_ref: context.resolvedRef,
+    change_request: changeRequest,
+    submodules: await describeSubmodules(context),
+    lfs,
+    actions: context.actions,
+    instructions: buildInstructions(
+      workPath,
+      targetPath,
+      effectiveCloneStrategy,
+      changeRequest,
+      lfs
+    ),
+  };
 }
 
 export async function repoEnsureLocal(
   args: RepoEnsureLocalArgs
 ): Promise<RepoEnsureResult> {
-  assertKnownArgs(args);
+  assertKnownArgs(args, ALLOWED_KEYS);
 
   const repoInput = args.repo?.trim();
   if (!repoInput) {
@@ -360,60 +1938,75 @@ export async function repoEnsureLocal(
 
   const ref = args.ref?.trim() || undefined;
   const mode = normalizeUpdateMode(args.update_mode);
+  const cloneStrategy = normalizeCloneStrategy(args.clone_strategy, args.depth);
+  const sparse = normalizeSparseRequest(
+    args.sparse_paths,
+    args.sparse_patterns
+  );
   const authMode = normalizeAuthMode(args.auth_mode);
   const allowSsh =
     args.allow_ssh ?? process.env.OPENCODE_REPO_ALLOW_SSH === "true";
   const shouldAllowSshInput = allowSsh || authMode !== "https";
   const parsedRepo = parseRepoUrl(repoInput, shouldAllowSshInput);
   const remotePlan = resolveRepoRemotePlan(parsedRepo, authMode);
+  const changeRequest = resolveChangeRequest(parsedRepo, ref);
 
   await ensureGitAvailable();
 
   const cloneRoot = await resolveCloneRoot(args.clone_root);
   const localPath = buildRepoPath(cloneRoot, parsedRepo);
-  const actions: string[] = [];
-
-  const status = (await directoryExists(localPath))
-    ? await updateExistingRepo(
-        localPath,
-        parsedRepo,
-        remotePlan.primaryUrl,
-        remotePlan.fallbackUrl,
-        remotePlan.authMode,
-        mode,
-        ref,
-        actions
-      )
-    : await cloneMissingRepo(
-        localPath,
-        remotePlan.primaryUrl,
-        remotePlan.fallbackUrl,
-        args.depth,
-        ref,
-        actions
-      );
-
-  const currentRef = await getCurrentRef(localPath);
-  const freshness = await computeFreshnessDetails(localPath, currentRef);
+  const useMirror =
+    args.use_mirror ?? process.env.OPENCODE_REPO_USE_MIRROR === "true";
+  const mirrorPath = useMirror
+    ? buildMirrorPath(await resolveMirrorRoot(), parsedRepo)
+    : null;
+  const offline = args.offline ?? process.env.OPENCODE_REPO_OFFLINE === "true";
+  if (offline && mode === "probe") {
+    throw new RepoPluginError(
+      "INVALID_ARGS",
+      "update_mode=probe needs network access and cannot be combined with offline"
+    );
+  }
 
-  return {
-    status,
-    repo_url: parseRepoUrl(await getOriginUrl(localPath), true).canonicalUrl,
-    local_path: localPath,
-    current_ref: currentRef,
-    default_branch: await getDefaultBranch(localPath),
-    head_sha: await getHeadSha(localPath),
-    comparison_ref: freshness.comparisonRef,
-    remote_head_sha: freshness.remoteHeadSha,
-    ahead_by: freshness.aheadBy,
-    behind_by: freshness.behindBy,
-    freshness: freshness.freshness,
-    actions,
-    instructions: [
-      `Use built-in tools with local_path: ${localPath}`,
-      `Example: run Grep/Read/Glob with files under ${localPath}`,
-    ],
+  const context: EnsureContext = {
+    localPath,
+    mirrorPath,
+    parsedRepo,
+    remotePlan,
+    mode,
+    verify: args.verify ?? false,
+    offline,
+    fetchTtlSeconds: resolveFetchTtlSeconds(args.fetch_ttl_seconds),
+    forceFetch: args.force_fetch ?? false,
+    fetchCached: false,
+    cloneStrategy,
+    depth: args.depth,
+    ref: changeRequest?.localBranch ?? ref,
+    sparse,
+    useWorktree: args.worktree ?? false,
+    worktreeRef: undefined,
+    workPath: localPath,
+    actions: [],
+    targetSubpath: undefined,
+    stash: null,
+    beforeSha: undefined,
+    probedFreshness: undefined,
+    resolvedRef: null,
+    changeRequest,
+    submodules: normalizeSubmoduleMode(args.submodules),
+    lfs: normalizeLfsRequest(args.lfs, args.lfs_include),
   };
+
+  return observeRetries(
+    (retry) =>
+      context.actions.push(
+        `retried_${retry.command}_attempt_${retry.attempt}_${retry.code.toLowerCase()}`
+      ),
+    () =>
+      withGitEnv(buildLfsEnv(context.lfs), () =>
+        withRepoLock(localPath, () => ensureLockedRepo(context))
+      )
+  );
 }
 
 export const repoEnsureLocalTool = tool({
@@ -422,13 +2015,17 @@ export const repoEnsureLocalTool = tool({
   args: REPO_TOOL_ARGS,
   async execute(args) {
     const typedArgs = args as RepoEnsureLocalArgs;
+    const retries: RetryAttempt[] = [];
     try {
-      const result = await repoEnsureLocal(typedArgs);
-      await logRepoEnsureSuccess(typedArgs, result);
+      const result = await observeRetries(
+        (retry) => retries.push(retry),
+        () => repoEnsureLocal(typedArgs)
+      );
+      await logRepoEnsureSuccess(typedArgs, result, retries);
       return toResultText(result);
     } catch (error) {
-      await logRepoEnsureFailure(typedArgs, error);
-      formatFailure(error);
+      await logRepoEnsureFailure(typedArgs, error, retries);
+      formatToolFailure(error);
     }
   },
 });
@@ -0,0 +1,140 @@
+import { tool } from "@opencode-ai/plugin";
+
+import { assertKnownArgs } from "../lib/args";
+import { formatToolFailure, toRepoPluginError } from "../lib/errors";
+import {
+  ensureGitAvailable,
+  getCurrentRef,
+  getDefaultBranch,
+  getLastFetchTime,
+  getOriginUrl,
+  getRefSha,
+  getWorktreeMainPath,
+  isGitRepository,
+  isWorktreeDirty,
+} from "../lib/git";
+import { findLocalClonePaths, getCloneSize } from "../lib/inventory";
+import { resolveCloneRoot } from "../lib/paths";
+import { redactSecrets } from "../lib/redact";
+import type {
+  RepoListLocalArgs,
+  RepoListResult,
+  RepoLocalEntry,
+} from "../lib/types";
+import { parseRepoUrl } from "../lib/url";
+
+const REPO_LIST_TOOL_ARGS = {
+  clone_root: tool.schema
+    .string()
+    .optional()
+    .describe(
+      "Optional absolute clone root path override. Defaults to OPENCODE_REPO_CLONE_ROOT or ~/.opencode/repos."
+    ),
+} as const;
+
+const ALLOWED_KEYS = new Set(Object.keys(REPO_LIST_TOOL_ARGS));
+
+async function readOriginUrl(localPath: string): Promise<string | null> {
+  try {
+    return parseRepoUrl(await getOriginUrl(localPath), true).canonicalUrl;
+  } catch {
+    return null;
+  }
+}
+
+export async function describeLocalClone(
+  localPath: string
+): Promise<RepoLocalEntry | null> {
+  if (!(await isGitRepository(localPath))) {
+    return null;
+  }
+
+  const repoUrl = await readOriginUrl(localPath);
+  if (!repoUrl) {
+    return null;
+  }
+
+  try {
+    const headSha = await getRefSha(localPath, "HEAD");
+    const lastFetchedAt = await getLastFetchTime(localPath);
+
+    return {
+      repo_url: repoUrl,
+      local_path: localPath,
+      worktree_of: await getWorktreeMainPath(localPath),
+      current_ref: headSha ? await getCurrentRef(localPath) : "HEAD",
+      head_sha: headSha,
+      default_branch: await getDefaultBranch(localPath),
+      dirty: await isWorktreeDirty(localPath),
+      last_fetched_at: lastFetchedAt ? lastFetchedAt.toISOString() : null,
+      size_bytes: await getCloneSize(localPath),
+      error: null,
+    };
+  } catch (error) {
+    return describeUnreadableClone(localPath, repoUrl, error);
+  }
+}
+
+// One checkout git cannot read (a corrupt index, say) is reported with its
+// error instead of failing the whole listing.
+async function describeUnreadableClone(
+  localPath: string,
+  repoUrl: string,
+  error: unknown
+): Promise<RepoLocalEntry> {
+  const { code, message, details } = toRepoPluginError(error);
+  const detailSuffix = details ? `\n${details}` : "";
+  return {
+    repo_url: repoUrl,
+    local_path: localPath,
+    worktree_of: await getWorktreeMainPath(localPath).catch(() => null),
+    current_ref: "HEAD",
+    head_sha: null,
+    default_branch: null,
+    dirty: false,
+    last_fetched_at: null,
+    size_bytes: await getCloneSize(localPath).catch(() => 0),
+    error: redactSecrets(`[${code}] ${message}${detailSuffix}`),
+  };
+}
+
+export async function listLocalClones(
+  cloneRoot: string
+): Promise<RepoLocalEntry[]> {
+  const entries: RepoLocalEntry[] = [];
+  for (const localPath of await findLocalClonePaths(cloneRoot)) {
+    const entry = await describeLocalClone(localPath);
+    if (entry) {
+      entries.push(entry);
+    }
+  }
+
+  return entries;
+}
+
+export async function repoListLocal(
+  args: RepoListLocalArgs
+): Promise<RepoListResult> {
+  assertKnownArgs(args, ALLOWED_KEYS);
+  await ensureGitAvailable();
+
+  const cloneRoot = await resolveCloneRoot(args.clone_root);
+  return {
+    clone_root: cloneRoot,
+    repos: await listLocalClones(cloneRoot),
+  };
+}
+
+export const repoListLocalTool = tool({
+  description:
+    "List repositories already cloned locally by repo_ensure_local. Use this to check what is cached before cloning again. Returns one entry per clone or ref-specific worktree with repo_url, local_path, worktree_of (main clone path for worktrees), current ref, head SHA, default branch, dirty flag, last fetch time, and on-disk size. Entries git cannot read carry an error instead of failing the listing.",
+  args: REPO_LIST_TOOL_ARGS,
+  async execute(args) {
+    try {
+      const result = await repoListLocal(args as RepoListLocalArgs);
+      return JSON.stringify(result, null, 2);
+    } catch (error) {
+      formatToolFailure(error);
+    }
+  },
+});
@@ -0,0 +1,600 @@
+import { realpath } from "node:fs/promises";
+import path from "node:path";
+
+import { tool } from "@opencode-ai/plugin";
+
+import { assertKnownArgs } from "../lib/args";
+import { formatToolFailure, RepoPluginError } from "../lib/errors";
+import {
+  countStashEntries,
+  directoryExists,
+  ensureGitAvailable,
+  getLastTouchedTime,
+  getOriginUrl,
+  getUnpushedCommitCount,
+  isGitRepository,
+  isWorktreeDirty,
+  listWorktreePaths,
+  removeWorktree,
+} from "../lib/git";
+import { findMirrorPaths, getCloneSize } from "../lib/inventory";
+import { withRepoLock } from "../lib/lock";
+import {
+  buildRepoPath,
+  buildWorktreePath,
+  ensureWithinRoot,
+  removeEmptyParents,
+  removeRepoPath,
+  resolveCloneRoot,
+  resolveMirrorRoot,
+} from "../lib/paths";
+import type {
+  RepoLocalEntry,
+  RepoProtectionReason,
+  RepoRemovalReason,
+  RepoRemovedEntry,
+  RepoRemoveLocalArgs,
+  RepoRemoveResult,
+  RepoSkippedEntry,
+} from "../lib/types";
+import { parseRepoUrl } from "../lib/url";
+import { listLocalClones } from "./repo-list-local";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const REPO_REMOVE_TOOL_ARGS = {
+  repo: tool.schema
+    .string()
+    .optional()
+    .describe(
+      "Repository to remove from the clone root. Accepts the same forms as repo_ensure_local (owner/repo, host/owner/repo, https URLs, SSH URLs when allowed). Omit when pruning with max_age_days or max_total_bytes."
+    ),
+  ref: tool.schema
+    .string()
+    .optional()
+    .describe(
+      "Optional ref whose worktree (created with repo_ensure_local worktree=true) should be removed. Without ref, the main clone and all of its worktrees are removed."
+    ),
+  clone_root: tool.schema
+    .string()
+    .optional()
+    .describe(
+      "Optional absolute clone root path override. Defaults to OPENCODE_REPO_CLONE_ROOT or ~/.opencode/repos."
+    ),
+  allow_ssh: tool.schema
+    .boolean()
+    .optional()
+    .describe(
+      "Allow git@host:owner/repo.git URLs for repo. Defaults to false unless OPENCODE_REPO_ALLOW_SSH=true."
+    ),
+  max_age_days: tool.schema
+    .number()
+    .positive()
+    .optional()
+    .describe(
+      "Prune mode: remove clones not fetched or checked out within this many days."
+    ),
+  max_total_bytes: tool.schema
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe(
+      "Prune mode: remove least-recently-used clones until the clone root fits within this many bytes."
+    ),
+  prune_mirrors: tool.schema
+    .boolean()
+    .optional()
+    .describe(
+      "Prune mode: also apply max_age_days / max_total_bytes to the shared mirror cache, budgeted separately from the clone root. Defaults to false."
+    ),
+  force: tool.schema
+    .boolean()
+    .optional()
+    .describe(
+      "Remove clones even when they have uncommitted changes or unpushed local commits. Defaults to false."
+    ),
+} as const;
+
+const ALLOWED_KEYS = new Set(Object.keys(REPO_REMOVE_TOOL_ARGS));
+
+type PruneEntry = Pick<
+  RepoLocalEntry,
+  "repo_url" | "local_path" | "worktree_of" | "size_bytes"
+>;
+
+interface PruneCandidate {
+  entry: PruneEntry;
+  root: string;
+  isMirror: boolean;
+  lastTouchedAt: number;
+}
+
+async function findProtectionReason(
+  localPath: string,
+  dirty: boolean
+): Promise<RepoProtectionReason | null> {
+  if (dirty) {
+    return "dirty_worktree";
+  }
+
+  if ((await getUnpushedCommitCount(localPath)) > 0) {
+    return "unpushed_commits";
+  }
+
+  if ((await countStashEntries(localPath)) > 0) {
+    return "stashed_changes";
+  }
+
+  return null;
+}
+
+function assertRemoveMode(args: RepoRemoveLocalArgs): void {
+  const isPrune =
+    args.max_age_days !== undefined || args.max_total_bytes !== undefined;
+  const hasRepo = Boolean(args.repo?.trim());
+  if (hasRepo === isPrune) {
+    throw new RepoPluginError(
+      "INVALID_ARGS",
+      "Provide either repo or at least one of max_age_days / max_total_bytes"
+    );
+  }
+  if (args.prune_mirrors && !isPrune) {
+    throw new RepoPluginError(
+      "INVALID_ARGS",
+      "prune_mirrors requires max_age_days or max_total_bytes"
+    );
+  }
+}
+
+function protectionError(reason: RepoProtectionReason): RepoPluginError {
+  if (reason === "dirty_worktree") {
+    return new RepoPluginError(
+      "DIRTY_WORKTREE",
+      "Refusing to remove clone with local changes",
+      "Commit/stash changes or pass force=true"
+    );
+  }
+
+  if (reason === "stashed_changes") {
+    return new RepoPluginError(
+      "STASHED_CHANGES",
+      "Refusing to remove clone with stashed changes",
+      "Apply or drop the stash (git stash list) or pass force=true"
+    );
+  }
+
+  return new RepoPluginError(
+    "UNPUSHED_COMMITS",
+    "Refusing to remove clone with unpushed local commits",
+    "Push the commits or pass force=true"
+  );
+}
+
+async function assertRemovable(paths: string[]): Promise<void> {
+  for (const target of paths) {
+    if (!(await isGitRepository(target))) {
+      continue;
+    }
+
+    const reason = await findProtectionReason(
+      target,
+      await isWorktreeDirty(target)
+    );
+    if (reason) {
+      throw protectionError(reason);
+    }
+  }
+}
+
+async function isRegisteredWorktree(
+  clonePath: string,
+  worktreePath: string
+): Promise<boolean> {
+  if (!(await directoryExists(clonePath))) {
+    return false;
+  }
+
+  const resolved = await realpath(worktreePath).catch(() =>
+    path.resolve(worktreePath)
+  );
+  return (await listWorktreePaths(clonePath)).includes(resolved);
+}
+
+async function removeEntryPath(
+  cloneRoot: string,
+  localPath: string,
+  worktreeOf: string | null
+): Promise<void> {
+  ensureWithinRoot(cloneRoot, localPath);
+  if (worktreeOf && (await isRegisteredWorktree(worktreeOf, localPath))) {
+    await removeWorktree(worktreeOf, localPath);
+  }
+
+  await removeRepoPath(cloneRoot, localPath);
+}
+
+// git reports worktrees by their real path, and they may have been added
+// anywhere on disk; any outside the clone root block the whole removal.
+async function toCloneRootPaths(
+  cloneRoot: string,
+  worktreePaths: string[]
+): Promise<string[]> {
+  const realRoot = await realpath(cloneRoot);
+  return worktreePaths.map((worktreePath) => {
+    const relative = path.relative(realRoot, worktreePath);
+    const target =
+      relative && !relative.startsWith("..") && !path.isAbsolute(relative)
+        ? path.join(cloneRoot, relative)
+        : worktreePath;
+    try {
+      ensureWithinRoot(cloneRoot, target);
+    } catch {
+      throw new RepoPluginError(
+        "PATH_VIOLATION",
+        `Refusing to remove a worktree outside the clone root: ${worktreePath}`,
+        "Remove it with git worktree remove first, or pass ref to remove a single worktree"
+      );
+    }
+    return target;
+  });
+}
+
+async function resolveSingleTargets(
+  cloneRoot: string,
+  localPath: string,
+  ref: string | undefined
+): Promise<string[]> {
+  if (ref) {
+    const worktreePath = buildWorktreePath(localPath, ref);
+    if (!(await directoryExists(worktreePath))) {
+      throw new RepoPluginError(
+        "REPO_NOT_CLONED",
+        `No worktree exists for ref: ${ref}`,
+        `expected_path=${worktreePath}`
+      );
+    }
+
+    return [worktreePath];
+  }
+
+  const worktreePaths = (await isGitRepository(localPath))
+    ? await toCloneRootPaths(cloneRoot, await listWorktreePaths(localPath))
+    : [];
+  return [...worktreePaths, localPath];
+}
+
+async function removeSingleRepo(
+  cloneRoot: string,
+  args: RepoRemoveLocalArgs
+): Promise<RepoRemoveResult> {
+  const allowSsh =
+    args.allow_ssh ?? process.env.OPENCODE_REPO_ALLOW_SSH === "true";
+  const parsedRepo = parseRepoUrl(args.repo ?? "", allowSsh);
+  const localPath = buildRepoPath(cloneRoot, parsedRepo);
+
+  // The lock file sits next to the clone, so empty parent directories can
+  // only be removed once it is released.
+  const result = await withRepoLock(localPath, () =>
+    removeLockedRepo(cloneRoot, args, parsedRepo.canonicalUrl, localPath)
+  );
+  await removeEmptyParents(cloneRoot, localPath);
+  return result;
+}
+
+async function removeLockedRepo(
+  cloneRoot: string,
+  args: RepoRemoveLocalArgs,
+  repoUrl: string,
+  localPath: string
+): Promise<RepoRemoveResult> {
+  if (!(await directoryExists(localPath))) {
+    throw new RepoPluginError(
+      "REPO_NOT_CLONED",
+      `Repository is not cloned under clone root: ${repoUrl}`,
+      `expected_path=${localPath}`
+    );
+  }
+
+  const targets = await resolveSingleTargets(
+    cloneRoot,
+    localPath,
+    args.ref?.trim()
+  );
+  for (const target of targets) {
+    ensureWithinRoot(cloneRoot, target);
+  }
+  if (!args.force) {
+    await assertRemovable(targets);
+  }
+
+  const removed: RepoRemovedEntry[] = [];
+  for (const target of targets) {
+    const sizeBytes = await getCloneSize(target);
+    await removeEntryPath(
+      cloneRoot,
+      target,
+      target === localPath ? null : localPath
+    );
+    removed.push({
+      repo_url: repoUrl,
+      local_path: target,
+      size_bytes: sizeBytes,
+      reason: "requested",
+    });
+  }
+
+  return {
+    clone_root: cloneRoot,
+    removed,
+    skipped: [],
+    total_bytes_before: null,
+    total_bytes_after: null,
+  };
+}
+
+async function toPruneCandidate(
+  entry: PruneEntry,
+  root: string,
+  isMirror: boolean
+): Promise<PruneCandidate> {
+  const lastTouchedAt = await getLastTouchedTime(entry.local_path);
+  return {
+    entry,
+    root,
+    isMirror,
+    lastTouchedAt: lastTouchedAt?.getTime() ?? 0,
+  };
+}
+
+// Clones never borrow objects from a mirror, so any mirror can go; the next
+// clone through it recreates it.
+async function listMirrorCandidates(): Promise<PruneCandidate[]> {
+  const mirrorRoot = await resolveMirrorRoot();
+  const candidates: PruneCandidate[] = [];
+  for (const mirrorPath of await findMirrorPaths(mirrorRoot)) {
+    const originUrl = await getOriginUrl(mirrorPath).catch(() => null);
+    if (!originUrl) {
+      continue;
+    }
+
+    const entry: PruneEntry = {
+      repo_url: parseRepoUrl(originUrl, true).canonicalUrl,
+      local_path: mirrorPath,
+      worktree_of: null,
+      size_bytes: await getCloneSize(mirrorPath),
+    };
+    candidates.push(await toPruneCandidate(entry, mirrorRoot, true));
+  }
+
+  return candidates;
+}
+
+function sumSizes(entries: PruneEntry[]): number {
+  return entries
+    .map((entry) => entry.size_bytes)
+    .reduce((total, size) => total + size, 0);
+}
+
+function selectEvictions(
+  candidates: PruneCandidate[],
+  totalBytes: number,
+  args: RepoRemoveLocalArgs
+): Map<PruneCandidate, RepoRemovalReason> {
+  const evictions = new Map<PruneCandidate, RepoRemovalReason>();
+  const oldestFirst = [...candidates].sort(
+    (left, right) => left.lastTouchedAt - right.lastTouchedAt
+  );
+
+  // Evicting a main clone removes its object store, so its worktrees go too.
+  const evict = (candidate: PruneCandidate, reason: RepoRemovalReason) => {
+    let freedBytes = 0;
+    const dependents = candidates.filter(
+      (other) => other.entry.worktree_of === candidate.entry.local_path
+    );
+    for (const target of [candidate, ...dependents]) {
+      if (!evictions.has(target)) {
+        evictions.set(target, reason);
+        freedBytes += target.entry.size_bytes;
+      }
+    }
+    return freedBytes;
+  };
+
+  let remainingBytes = totalBytes;
+  if (args.max_age_days !== undefined) {
+    const cutoff = Date.now() - args.max_age_days * DAY_MS;
+    for (const candidate of oldestFirst) {
+      if (candidate.lastTouchedAt < cutoff) {
+        remainingBytes -= evict(candidate, "max_age");
+      }
+    }
+  }
+
+  if (args.max_total_bytes !== undefined) {
+    for (const candidate of oldestFirst) {
+      if (remainingBytes <= args.max_total_bytes) {
+        break;
+      }
+
+      remainingBytes -= evict(candidate, "size_budget");
+    }
+  }
+
+  return evictions;
+}
+
+async function findProtectedPaths(
+  entries: RepoLocalEntry[],
+  force: boolean
+): Promise<Map<string, RepoProtectionReason>> {
+  const protectedPaths = new Map<string, RepoProtectionReason>();
+  if (force) {
+    return protectedPaths;
+  }
+
+  for (const entry of entries) {
+    const reason = entry.error
+      ? "unreadable"
+      : await findProtectionReason(entry.local_path, entry.dirty);
+    if (!reason) {
+      continue;
+    }
+
+    protectedPaths.set(entry.local_path, reason);
+    if (entry.worktree_of && !protectedPaths.has(entry.worktree_of)) {
+      protectedPaths.set(entry.worktree_of, reason);
+    }
+  }
+
+  return protectedPaths;
+}
+
+// Prune does not wait for clones that repo_ensure_local is working on, and
+// checks protection again under the lock since the clone may have changed
+// since it was listed.
+async function evictEntry(
+  candidate: PruneCandidate,
+  force: boolean
+): Promise<RepoProtectionReason | null> {
+  const { entry, root } = candidate;
+  const clonePath = entry.worktree_of ?? entry.local_path;
+  try {
+    return await withRepoLock(
+      clonePath,
+      async () => {
+        const reason =
+          force || candidate.isMirror
+            ? null
+            : await findProtectionReason(
+                entry.local_path,
+                await isWorktreeDirty(entry.local_path)
+              );
+        if (!reason) {
+          await removeEntryPath(root, entry.local_path, entry.worktree_of);
+        }
+        return reason;
+      },
+      { timeoutMs: 0 }
+    );
+  } catch (error) {
+    if (error instanceof RepoPluginError && error.code === "REPO_LOCKED") {
+      return "locked";
+    }
+    throw error;
+  }
+}
+
+async function pruneRepos(
+  cloneRoot: string,
+  args: RepoRemoveLocalArgs
+): Promise<RepoRemoveResult> {
+  const entries = await listLocalClones(cloneRoot);
+  const totalBytesBefore = sumSizes(entries);
+  const candidates: PruneCandidate[] = [];
+
+  const protectedPaths = await findProtectedPaths(entries, args.force ?? false);
+  const skipped: RepoSkippedEntry[] = [];
+  for (const entry of entries) {
+    const reason = protectedPaths.get(entry.local_path);
+    if (reason) {
+      skipped.push({
+        repo_url: entry.repo_url,
+        local_path: entry.local_path,
+        reason,
+      });
+      continue;
+    }
+
+    candidates.push(await toPruneCandidate(entry, cloneRoot, false));
+  }
+
+  // Mirrors are shared by every clone root, so they only go when asked for
+  // and are measured against the budget on their own.
+  const mirrorCandidates = args.prune_mirrors
+    ? await listMirrorCandidates()
+    : [];
+  const removed: RepoRemovedEntry[] = [];
+  let totalBytesAfter = totalBytesBefore;
+  const evictions = [
+    ...selectEvictions(candidates, totalBytesBefore, args),
+    ...selectEvictions(
+      mirrorCandidates,
+      sumSizes(mirrorCandidates.map((candidate) => candidate.entry)),
+      args
+    ),
+  ].sort(
+    ([left], [right]) =>
+      Number(left.entry.worktree_of === null) -
+      Number(right.entry.worktree_of === null)
+  );
+  // Worktrees come first, so a main clone whose worktree had to be kept is
+  // kept as well.
+  const keptClones = new Map<string, RepoProtectionReason>();
+  for (const [candidate, reason] of evictions) {
+    const { entry } = candidate;
+    const clonePath = entry.worktree_of ?? entry.local_path;
+    const skipReason =
+      keptClones.get(clonePath) ??
+      (await evictEntry(candidate, args.force ?? false));
+    if (skipReason) {
+      keptClones.set(clonePath, skipReason);
+      skipped.push({
+        repo_url: entry.repo_url,
+        local_path: entry.local_path,
+        reason: skipReason,
+      });
+      continue;
+    }
+
+    removed.push({
+      repo_url: entry.repo_url,
+      local_path: entry.local_path,
+      size_bytes: entry.size_bytes,
+      reason,
+    });
+    if (!candidate.isMirror) {
+      totalBytesAfter -= entry.size_bytes;
+    }
+  }
+  for (const [candidate] of evictions) {
+    await removeEmptyParents(candidate.root, candidate.entry.local_path);
+  }
+
+  return {
+    clone_root: cloneRoot,
+    removed,
+    skipped,
+    total_bytes_before: totalBytesBefore,
+    total_bytes_after: totalBytesAfter,
+  };
+}
+
+export async function repoRemoveLocal(
+  args: RepoRemoveLocalArgs
+): Promise<RepoRemoveResult> {
+  assertKnownArgs(args, ALLOWED_KEYS);
+  assertRemoveMode(args);
+  await ensureGitAvailable();
+
+  const cloneRoot = await resolveCloneRoot(args.clone_root);
+  if (args.repo?.trim()) {
+    return removeSingleRepo(cloneRoot, args);
+  }
+
+  return pruneRepos(cloneRoot, args);
+}
+
+export const repoRemoveLocalTool = tool({
+  description:
+    "Remove local clones created by repo_ensure_local. Pass repo to remove one clone (and its ref worktrees), repo plus ref to remove a single worktree, or max_age_days / max_total_bytes to prune stale or least-recently-used clones (plus prune_mirrors=true to prune the shared mirror cache too). Clones with uncommitted changes or unpushed commits are protected unless force=true.",
+  args: REPO_REMOVE_TOOL_ARGS,
+  async execute(args) {
+    try {
+      const result = await repoRemoveLocal(args as RepoRemoveLocalArgs);
+      return JSON.stringify(result, null, 2);
+    } catch (error) {
+      formatToolFailure(error);
+    }
+  },
+});
@@ -2,6 +2,7 @@ import { describe, expect, test } from "bun:test";
 
 import { normalizeAuthMode, resolveRepoRemotePlan } from "../src/lib/auth";
 import type { ParsedRepoUrl } from "../src/lib/types";
+import { parseRepoUrl } from "../src/lib/url";
 
 function makeParsedRepo(raw: string): ParsedRepoUrl {
   return {
@@ -51,6 +52,28 @@ describe("resolveRepoRemotePlan", () => {
     expect(plan.fallbackUrl).toBeNull();
   });
 
+  test("derives host-specific clone URLs for azure devops", () => {
+    const plan = resolveRepoRemotePlan(
+      parseRepoUrl("https://dev.azure.com/acme/platform/_git/widgets", false),
+      "auto"
+    );
+    expect(plan.primaryUrl).toBe(
+      "https://dev.azure.com/acme/platform/_git/widgets"
+    );
+    expect(plan.fallbackUrl).toBe(
+      "git@ssh.dev.azure.com:v3/acme/platform/widgets"
+    );
+  });
+
+  test("keeps gitlab subgroups in SSH fallback URLs", () => {
+    const plan = resolveRepoRemotePlan(
+      parseRepoUrl("https://gitlab.com/acme/backend/api/-/tree/main", false),
+      "auto"
+    );
+    expect(plan.primaryUrl).toBe("https://gitlab.com/acme/backend/api.git");
+    expect(plan.fallbackUrl).toBe("git@gitlab.com:acme/backend/api.git");
+  });
+
   test("uses HTTPS only in https mode", () => {
     const plan = resolveRepoRemotePlan(
       makeParsedRepo("anomalyco/opencode"),
@@ -0,0 +1,79 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  parseChangeRequestRef,
+  resolveChangeRequestTarget,
+} from "../src/lib/change-requests";
+import { parseRepoUrl } from "../src/lib/url";
+
+const GITHUB_REPO = parseRepoUrl("acme/widgets", false);
+
+describe("parseChangeRequestRef", () => {
+  test("accepts shorthand pull and merge request forms", () => {
+    expect(parseChangeRequestRef("pr:123", GITHUB_REPO)).toEqual({
+      kind: "pull_request",
+      number: 123,
+    });
+    expect(parseChangeRequestRef("pull/123", GITHUB_REPO)).toEqual({
+      kind: "pull_request",
+      number: 123,
+    });
+    expect(parseChangeRequestRef("mr:45", GITHUB_REPO)).toEqual({
+      kind: "merge_request",
+      number: 45,
+    });
+  });
+
+  test("accepts pull request URLs of the same repository", () => {
+    expect(
+      parseChangeRequestRef(
+        "https://github.com/acme/widgets/pull/7/files",
+        GITHUB_REPO
+      )
+    ).toEqual({ kind: "pull_request", number: 7 });
+  });
+
+  test("rejects pull request URLs of another repository", () => {
+    expect(() =>
+      parseChangeRequestRef("https://github.com/acme/other/pull/7", GITHUB_REPO)
+    ).toThrow("ref points at a pull request in a different repository");
+  });
+
+  test("leaves ordinary refs alone", () => {
+    expect(parseChangeRequestRef("main", GITHUB_REPO)).toBeNull();
+    expect(parseChangeRequestRef("release/1.2", GITHUB_REPO)).toBeNull();
+  });
+});
+
+describe("resolveChangeRequestTarget", () => {
+  test("uses the host's ref namespace", () => {
+    const request = { kind: "pull_request", number: 45 } as const;
+    expect(resolveChangeRequestTarget(request, "github.com")).toEqual({
+      kind: "pull_request",
+      number: 45,
+      remoteRef: "refs/pull/45/head",
+      mergeRef: "refs/pull/45/merge",
+      localBranch: "pr/45",
+      trackingRef: "refs/opencode/pr/45",
+      mergeTrackingRef: "refs/opencode/pr/45-merge",
+    });
+    expect(resolveChangeRequestTarget(request, "gitlab.com")).toEqual({
+      kind: "merge_request",
+      number: 45,
+      remoteRef: "refs/merge-requests/45/head",
+      mergeRef: "refs/merge-requests/45/merge",
+      localBranch: "mr/45",
+      trackingRef: "refs/opencode/mr/45",
+      mergeTrackingRef: "refs/opencode/mr/45-merge",
+    });
+  });
+
+  test("rejects hosts without fetchable pull request refs", () => {
+    expect(() =>
+      resolveChangeRequestTarget(
+        { kind: "pull_request", number: 1 },
+        "bitbucket.org"
+      )
+    ).toThrow("Pull request refs cannot be fetched from bitbucket.org");
+  });
+});
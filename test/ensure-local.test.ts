@@ -0,0 +1,611 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { execFileSync } from "node:child_process";
+import {
+  access,
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+
+import { RepoPluginError } from "../src/lib/errors";
+import { repoEnsureLocal } from "../src/tools/repo-ensure-local";
+import { repoRemoveLocal } from "../src/tools/repo-remove-local";
+import { createFixtureRepo, type FixtureRepo } from "./fixture-repo";
+
+let fixture: FixtureRepo;
+
+// Turns the packs of a clone into loose objects so a test can delete one.
+async function unpackObjects(repoPath: string): Promise<void> {
+  const packDir = path.join(repoPath, ".git", "objects", "pack");
+  for (const name of await readdir(packDir)) {
+    if (!name.endsWith(".pack")) {
+      continue;
+    }
+    const pack = await readFile(path.join(packDir, name));
+    await rm(path.join(packDir, name));
+    await rm(path.join(packDir, `${name.slice(0, -".pack".length)}.idx`));
+    execFileSync("git", ["unpack-objects", "-q"], {
+      cwd: repoPath,
+      env: process.env,
+      input: pack,
+    });
+  }
+}
+
+function pathExists(target: string): Promise<boolean> {
+  return access(target).then(
+    () => true,
+    () => false
+  );
+}
+
+beforeEach(async () => {
+  fixture = await createFixtureRepo();
+});
+
+afterEach(async () => {
+  await fixture.cleanup();
+});
+
+describe("repoEnsureLocal", () => {
+  test("skips fetching within the fetch TTL unless forced", async () => {
+    const args = {
+      repo: fixture.repo,
+      clone_root: fixture.cloneRoot,
+      fetch_ttl_seconds: 3600,
+    };
+    const first = await repoEnsureLocal(args);
+    expect(first.status).toBe("cloned");
+
+    const pushedSha = fixture.commit("second");
+    const cached = await repoEnsureLocal(args);
+    expect(cached.status).toBe("already-current");
+    expect(cached.fetch_cached).toBe(true);
+    expect(cached.actions).toContain("fetch_skipped_ttl");
+    expect(cached.head_sha).toBe(first.head_sha);
+
+    const forced = await repoEnsureLocal({ ...args, force_fetch: true });
+    expect(forced.status).toBe("updated");
+    expect(forced.fetch_cached).toBe(false);
+    expect(forced.actions).toContain("fetched_origin");
+    expect(forced.head_sha).toBe(pushedSha);
+  });
+
+  test("fetches on every call by default", async () => {
+    const args = { repo: fixture.repo, clone_root: fixture.cloneRoot };
+    await repoEnsureLocal(args);
+    const pushedSha = fixture.commit("second");
+
+    const second = await repoEnsureLocal(args);
+    expect(second.fetch_cached).toBe(false);
+    expect(second.actions).toContain("fetched_origin");
+    expect(second.head_sha).toBe(pushedSha);
+  });
+
+  test("fails offline when the repository is not cloned", async () => {
+    await expect(
+      repoEnsureLocal({
+        repo: fixture.repo,
+        clone_root: fixture.cloneRoot,
+        offline: true,
+      })
+    ).rejects.toMatchObject({ code: "OFFLINE_UNAVAILABLE" });
+  });
+
+  test("fails offline when the ref was never fetched", async () => {
+    await repoEnsureLocal({
+      repo: fixture.repo,
+      clone_root: fixture.cloneRoot,
+    });
+    fixture.tag("v1.0.0");
+
+    await expect(
+      repoEnsureLocal({
+        repo: fixture.repo,
+        clone_root: fixture.cloneRoot,
+        ref: "v1.0.0",
+        offline: true,
+      })
+    ).rejects.toMatchObject({ code: "OFFLINE_UNAVAILABLE" });
+  });
+
+  test("fetches refs from the mirror while offline", async () => {
+    const otherRoot = path.join(fixture.root, "other-clones");
+    const first = await repoEnsureLocal({
+      repo: fixture.repo,
+      clone_root: fixture.cloneRoot,
+      use_mirror: true,
+    });
+    fixture.tag("v2.0.0");
+    await repoEnsureLocal({
+      repo: fixture.repo,
+      clone_root: otherRoot,
+      use_mirror: true,
+    });
+
+    const offline = await repoEnsureLocal({
+      repo: fixture.repo,
+      clone_root: fixture.cloneRoot,
+      ref: "v2.0.0",
+      use_mirror: true,
+      offline: true,
+    });
+    expect(offline.actions).toContain("fetched_from_mirror");
+    expect(offline.actions).toContain("checked_out_v2.0.0");
+    expect(offline.last_fetched_at).toBe(first.last_fetched_at);
+  });
+
+  test("fails instead of serving a stale mirror when it cannot be refreshed", async () => {
+    const args = {
+      repo: fixture.repo,
+      clone_root: fixture.cloneRoot,
+      use_mirror: true,
+    };
+    const first = await repoEnsureLocal(args);
+    fixture.commit("second");
+    await rename(fixture.remotePath, `${fixture.remotePath}.gone`);
+
+    await expect(
+      repoEnsureLocal({ ...args, force_fetch: true })
+    ).rejects.toBeInstanceOf(RepoPluginError);
+    const offline = await repoEnsureLocal({ ...args, offline: true });
+    expect(offline.head_sha).toBe(first.head_sha);
+    expect(offline.last_fetched_at).toBe(first.last_fetched_at);
+  });
+
+  test("moves a broken clone with local changes aside instead of deleting it", async () => {
+    const args = { repo: fixture.repo, clone_root: fixture.cloneRoot };
+    const { local_path: localPath } = await repoEnsureLocal(args);
+    await writeFile(path.join(localPath, "notes.txt"), "local work\n");
+    await writeFile(
+      path.join(localPath, ".git", "HEAD"),
+      "ref: refs/heads/missing\n"
+    );
+
+    const result = await repoEnsureLocal({ ...args, force_fetch: true });
+    expect(result.status).toBe("cloned");
+    expect(result.actions).toContain("moved_aside_broken_clone");
+
+    const parent = path.dirname(localPath);
+    const aside = (await readdir(parent)).find((name) =>
+      name.startsWith("widgets.broken-")
+    );
+    expect(aside).toBeDefined();
+    expect(
+      await readFile(path.join(parent, aside ?? "", "notes.txt"), "utf8")
+    ).toBe("local work\n");
+  });
+
+  test("replaces an empty directory left at the clone path", async () => {
+    const args = { repo: fixture.repo, clone_root: fixture.cloneRoot };
+    const localPath = path.join(
+      fixture.cloneRoot,
+      "github.com",
+      "acme",
+      "widgets"
+    );
+    await mkdir(localPath, { recursive: true });
+
+    const result = await repoEnsureLocal(args);
+    expect(result.actions).toContain("removed_broken_clone");
+    expect(await readdir(path.dirname(localPath))).toEqual(["widgets"]);
+  });
+
+  test("leaves a broken clone alone in probe and offline mode", async () => {
+    const args = { repo: fixture.repo, clone_root: fixture.cloneRoot };
+    const { local_path: localPath } = await repoEnsureLocal(args);
+    await rm(path.join(localPath, ".git"), { force: true, recursive: true });
+
+    for (const extra of [{ update_mode: "probe" }, { offline: true }]) {
+      await expect(
+        repoEnsureLocal({ ...args, ...extra })
+      ).rejects.toMatchObject({ code: "NOT_GIT_REPO" });
+    }
+    expect(await readdir(localPath)).toEqual(["README.md"]);
+  });
+});
+
+describe("ref worktrees", () => {
+  test("creates, reuses and removes a worktree for a ref", async () => {
+    fixture.tag("v1.0.0");
+    const args = {
+      repo: fixture.repo,
+      clone_root: fixture.cloneRoot,
+      ref: "v1.0.0",
+      worktree: true,
+    };
+    const created = await repoEnsureLocal(args);
+    const clonePath = created.worktree_of ?? "";
+    expect(path.basename(created.local_path)).toStartWith("widgets@");
+    expect(created.actions).toContain("created_worktree_v1.0.0");
+
+    const reused = await repoEnsureLocal(args);
+    expect(reused.local_path).toBe(created.local_path);
+    expect(reused.actions).not.toContain("created_worktree_v1.0.0");
+
+    const removed = await repoRemoveLocal({
+      repo: fixture.repo,
+      clone_root: fixture.cloneRoot,
+      ref: "v1.0.0",
+    });
+    expect(removed.removed.map((entry) => entry.local_path)).toEqual([
+      created.local_path,
+    ]);
+    expect(await pathExists(created.local_path)).toBe(false);
+    expect(await pathExists(clonePath)).toBe(true);
+    expect(
+      fixture.git(clonePath, "worktree", "list", "--porcelain")
+    ).not.toContain("widgets@");
+  });
+
+  test("refuses to remove a clone with a worktree outside the clone root", async () => {
+    const { local_path: clonePath } = await repoEnsureLocal({
+      repo: fixture.repo,
+      clone_root: fixture.cloneRoot,
+    });
+    const outside = path.join(fixture.root, "outside-worktree");
+    fixture.git(clonePath, "worktree", "add", "--quiet", "--detach", outside);
+
+    await expect(
+      repoRemoveLocal({ repo: fixture.repo, clone_root: fixture.cloneRoot })
+    ).rejects.toMatchObject({ code: "PATH_VIOLATION" });
+    expect(await pathExists(outside)).toBe(true);
+    expect(await pathExists(clonePath)).toBe(true);
+  });
+});
+
+describe("change requests", () => {
+  test("does not count a visited pull request as unpushed work", async () => {
+    const args = { repo: fixture.repo, clone_root: fixture.cloneRoot };
+    const prSha = fixture.commitTo("refs/pull/1/head", "pull request");
+
+    const pr = await repoEnsureLocal({ ...args, ref: "pr:1" });
+    expect(pr.current_ref).toBe("pr/1");
+    expect(pr.head_sha).toBe(prSha);
+    const main = await repoEnsureLocal({
+      ...args,
+      ref: "main",
+      force_fetch: true,
+    });
+    expect(main.current_ref).toBe("main");
+
+    const removed = await repoRemoveLocal(args);
+    expect(removed.removed.map((entry) => entry.local_path)).toEqual([
+      main.local_path,
+    ]);
+  });
+
+  test("follows a force-pushed pull request", async () => {
+    const args = { repo: fixture.repo, clone_root: fixture.cloneRoot };
+    fixture.commitTo("refs/pull/1/head", "first attempt");
+    await repoEnsureLocal({ ...args, ref: "pr:1" });
+
+    const rewrittenSha = fixture.commitTo("refs/pull/1/head", "second attempt");
+    const updated = await repoEnsureLocal({
+      ...args,
+      ref: "pr:1",
+      force_fetch: true,
+    });
+    expect(updated.head_sha).toBe(rewrittenSha);
+    expect(updated.actions).toContain("reset_to_pr/1");
+
+    await repoEnsureLocal({ ...args, ref: "main", force_fetch: true });
+    const againSha = fixture.commitTo("refs/pull/1/head", "third attempt");
+    const revisited = await repoEnsureLocal({
+      ...args,
+      ref: "pr:1",
+      force_fetch: true,
+    });
+    expect(revisited.head_sha).toBe(againSha);
+  });
+});
+
+describe("recreate and verify", () => {
+  test("removes linked worktrees before recreating the clone", async () => {
+    fixture.tag("v1.0.0");
+    const args = { repo: fixture.repo, clone_root: fixture.cloneRoot };
+    const worktree = await repoEnsureLocal({
+      ...args,
+      ref: "v1.0.0",
+      worktree: true,
+    });
+
+    const recreated = await repoEnsureLocal({
+      ...args,
+      update_mode: "recreate",
+    });
+    expect(recreated.actions).toContain("removed_clone_for_recreate");
+    expect(recreated.actions).toContain(
+      `removed_worktree_${path.basename(worktree.local_path)}`
+    );
+    expect(await pathExists(worktree.local_path)).toBe(false);
+    expect(await readdir(path.dirname(recreated.local_path))).toEqual([
+      "widgets",
+    ]);
+  });
+
+  test("moves a clone holding a stash aside when recreating", async () => {
+    const args = { repo: fixture.repo, clone_root: fixture.cloneRoot };
+    const { local_path: localPath } = await repoEnsureLocal(args);
+    await writeFile(path.join(localPath, "notes.txt"), "local work\n");
+    fixture.git(localPath, "stash", "push", "--include-untracked");
+
+    const recreated = await repoEnsureLocal({
+      ...args,
+      update_mode: "recreate",
+    });
+    expect(recreated.actions).toContain("moved_aside_clone_for_recreate");
+    const aside = (await readdir(path.dirname(localPath))).find((name) =>
+      name.startsWith("widgets.broken-")
+    );
+    expect(
+      fixture.git(
+        path.join(path.dirname(localPath), aside ?? ""),
+        "stash",
+        "list"
+      )
+    ).not.toBe("");
+  });
+
+  test("records a passing verification", async () => {
+    const args = { repo: fixture.repo, clone_root: fixture.cloneRoot };
+    await repoEnsureLocal(args);
+
+    const verified = await repoEnsureLocal({ ...args, verify: true });
+    expect(verified.actions).toContain("verified_clone");
+  });
+
+  test("moves a corrupt clone with local changes aside", async () => {
+    const args = { repo: fixture.repo, clone_root: fixture.cloneRoot };
+    const { local_path: localPath, head_sha: headSha } =
+      await repoEnsureLocal(args);
+    const blob = fixture.git(localPath, "rev-parse", "HEAD:README.md");
+    await unpackObjects(localPath);
+    await rm(
+      path.join(localPath, ".git", "objects", blob.slice(0, 2), blob.slice(2))
+    );
+    await writeFile(path.join(localPath, "notes.txt"), "local work\n");
+
+    const recloned = await repoEnsureLocal({ ...args, verify: true });
+    expect(recloned.actions).toContain("verification_failed");
+    expect(recloned.actions).toContain("moved_aside_corrupt_clone");
+    expect(recloned.head_sha).toBe(headSha);
+    const aside = (await readdir(path.dirname(localPath))).find((name) =>
+      name.startsWith("widgets.broken-")
+    );
+    expect(
+      await readFile(
+        path.join(path.dirname(localPath), aside ?? "", "notes.txt"),
+        "utf8"
+      )
+    ).toBe("local work\n");
+  });
+});
+
+describe("ff-stash", () => {
+  const seedFile = (name: string) => path.join(fixture.root, "seed", name);
+
+  test("stashes local edits across a fast-forward and reapplies them", async () => {
+    const args = { repo: fixture.repo, clone_root: fixture.cloneRoot };
+    const { local_path: localPath } = await repoEnsureLocal(args);
+    await writeFile(path.join(localPath, "older.txt"), "older work\n");
+    fixture.git(localPath, "stash", "push", "--include-untracked");
+    const olderStash = fixture.git(localPath, "rev-parse", "refs/stash");
+    await writeFile(path.join(localPath, "README.md"), "# local edit\n");
+    await writeFile(seedFile("CHANGELOG.md"), "- second\n");
+    const pushedSha = fixture.commit("second");
+
+    const updated = await repoEnsureLocal({
+      ...args,
+      update_mode: "ff-stash",
+    });
+    expect(updated.status).toBe("updated");
+    expect(updated.head_sha).toBe(pushedSha);
+    expect(updated.stash).toMatchObject({
+      reapplied: true,
+      files: ["README.md"],
+    });
+    expect(updated.stash?.sha).not.toBe(olderStash);
+    expect(updated.actions).toContain("reapplied_stash");
+    expect(await readFile(path.join(localPath, "README.md"), "utf8")).toBe(
+      "# local edit\n"
+    );
+    expect(fixture.git(localPath, "stash", "list", "--format=%H")).toBe(
+      olderStash
+    );
+  });
+
+  test("keeps the stash when reapplying conflicts", async () => {
+    const args = { repo: fixture.repo, clone_root: fixture.cloneRoot };
+    const { local_path: localPath } = await repoEnsureLocal(args);
+    await writeFile(path.join(localPath, "README.md"), "# local edit\n");
+    await writeFile(seedFile("README.md"), "# remote edit\n");
+    const pushedSha = fixture.commit("second");
+
+    const updated = await repoEnsureLocal({
+      ...args,
+      update_mode: "ff-stash",
+    });
+    expect(updated.head_sha).toBe(pushedSha);
+    expect(updated.actions).toContain("kept_stash_after_conflict");
+    expect(updated.stash).toMatchObject({
+      ref: "stash@{0}",
+      reapplied: false,
+      files: ["README.md"],
+    });
+    expect(updated.stash?.sha).toBe(
+      fixture.git(localPath, "rev-parse", "stash@{0}")
+    );
+    expect(await readFile(path.join(localPath, "README.md"), "utf8")).toBe(
+      "# remote edit\n"
+    );
+    expect(fixture.git(localPath, "status", "--porcelain")).toBe("");
+  });
+});
+
+describe("clone strategies", () => {
+  test("makes shallow clones and unshallows them on request", async () => {
+    fixture.commit("second");
+    const headSha = fixture.commit("third");
+    const args = { repo: fixture.repo, clone_root: fixture.cloneRoot };
+
+    const shallow = await repoEnsureLocal({
+      ...args,
+      clone_strategy: "shallow",
+    });
+    expect(shallow.clone_strategy).toBe("shallow");
+    expect(shallow.head_sha).toBe(headSha);
+    const localPath = shallow.local_path;
+    expect(fixture.git(localPath, "rev-parse", "--is-shallow-repository")).toBe(
+      "true"
+    );
+    expect(fixture.git(localPath, "rev-list", "--count", "HEAD")).toBe("1");
+
+    const full = await repoEnsureLocal({ ...args, clone_strategy: "full" });
+    expect(full.clone_strategy).toBe("full");
+    expect(full.actions).toContain("unshallowed_repository");
+    expect(fixture.git(localPath, "rev-parse", "--is-shallow-repository")).toBe(
+      "false"
+    );
+    expect(fixture.git(localPath, "rev-list", "--count", "HEAD")).toBe("3");
+  });
+
+  test("makes partial clones that keep their filter", async () => {
+    fixture.git(fixture.remotePath, "config", "uploadpack.allowFilter", "true");
+    const filters = [
+      ["blobless", "blob:none"],
+      ["treeless", "tree:0"],
+    ] as const;
+    for (const [strategy, filter] of filters) {
+      const cloneRoot = path.join(fixture.root, strategy);
+      const args = { repo: fixture.repo, clone_root: cloneRoot };
+      const cloned = await repoEnsureLocal({
+        ...args,
+        clone_strategy: strategy,
+      });
+      expect(cloned.clone_strategy).toBe(strategy);
+      expect(
+        fixture.git(
+          cloned.local_path,
+          "config",
+          "remote.origin.partialclonefilter"
+        )
+      ).toBe(filter);
+
+      const pushedSha = fixture.commit(`after ${strategy}`);
+      const updated = await repoEnsureLocal(args);
+      expect(updated.clone_strategy).toBe(strategy);
+      expect(updated.head_sha).toBe(pushedSha);
+    }
+  });
+});
+
+describe("probe", () => {
+  test("reports a stale clone without fetching and a current one as current", async () => {
+    const args = { repo: fixture.repo, clone_root: fixture.cloneRoot };
+    const { local_path: localPath, head_sha: clonedSha } =
+      await repoEnsureLocal(args);
+
+    const current = await repoEnsureLocal({ ...args, update_mode: "probe" });
+    expect(current.status).toBe("probed");
+    expect(current.freshness).toBe("current");
+    expect(current.remote_head_sha).toBe(clonedSha);
+    expect(current.actions).toContain("probed_remote_main");
+    expect(current.actions).not.toContain("fetched_origin");
+
+    const pushedSha = fixture.commit("second");
+    const stale = await repoEnsureLocal({ ...args, update_mode: "probe" });
+    expect(stale.freshness).toBe("stale");
+    expect(stale.remote_head_sha).toBe(pushedSha);
+    expect(stale.head_sha).toBe(clonedSha);
+    expect(stale.actions).not.toContain("fetched_origin");
+    expect(fixture.git(localPath, "rev-parse", "origin/main")).toBe(clonedSha);
+
+    await repoEnsureLocal(args);
+    const refreshed = await repoEnsureLocal({
+      ...args,
+      update_mode: "probe",
+    });
+    expect(refreshed.freshness).toBe("current");
+    expect(refreshed.head_sha).toBe(pushedSha);
+  });
+});
+
+describe("submodules", () => {
+  // Serves acme/lib next to acme/widgets and returns a function that commits
+  // a new version of lib.txt to it.
+  function createLibRemote(): (content: string) => Promise<string> {
+    const remotePath = path.join(path.dirname(fixture.remotePath), "lib.git");
+    const seedPath = path.join(fixture.root, "lib-seed");
+    fixture.git(
+      fixture.root,
+      "init",
+      "--quiet",
+      "--bare",
+      "--initial-branch=main",
+      remotePath
+    );
+    fixture.git(fixture.root, "clone", "--quiet", remotePath, seedPath);
+    return async (content: string) => {
+      await writeFile(path.join(seedPath, "lib.txt"), content);
+      fixture.git(seedPath, "add", "lib.txt");
+      fixture.git(seedPath, "commit", "--quiet", "--message", content);
+      fixture.git(seedPath, "push", "--quiet", "origin", "HEAD:main");
+      return fixture.git(seedPath, "rev-parse", "HEAD");
+    };
+  }
+
+  test("initializes submodules after clone and updates them after fetch", async () => {
+    const commitLib = createLibRemote();
+    const firstLibSha = await commitLib("v1");
+    const seedPath = path.join(fixture.root, "seed");
+    fixture.git(
+      seedPath,
+      "submodule",
+      "add",
+      "--quiet",
+      "https://github.com/acme/lib",
+      "lib"
+    );
+    fixture.commit("add lib");
+    const args = {
+      repo: fixture.repo,
+      clone_root: fixture.cloneRoot,
+      submodules: "recursive",
+    };
+
+    const cloned = await repoEnsureLocal(args);
+    expect(cloned.actions).toContain("updated_submodules_recursive");
+    expect(cloned.submodules).toEqual([
+      {
+        path: "lib",
+        url: "https://github.com/acme/lib.git",
+        sha: firstLibSha,
+        initialized: true,
+      },
+    ]);
+    const libFile = path.join(cloned.local_path, "lib", "lib.txt");
+    expect(await readFile(libFile, "utf8")).toBe("v1");
+
+    const secondLibSha = await commitLib("v2");
+    fixture.git(
+      path.join(seedPath, "lib"),
+      "pull",
+      "--quiet",
+      "origin",
+      "main"
+    );
+    fixture.commit("bump lib");
+
+    const updated = await repoEnsureLocal(args);
+    expect(updated.status).toBe("updated");
+    expect(updated.submodules).toMatchObject([
+      { path: "lib", sha: secondLibSha, initialized: true },
+    ]);
+    expect(await readFile(libFile, "utf8")).toBe("v2");
+  });
+});
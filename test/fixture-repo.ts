@@ -0,0 +1,117 @@
+import { execFileSync } from "node:child_process";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+
+// Serves https://github.com/<owner>/<repo> from local bare repositories through
+// url.insteadOf, so the ensure flow runs end to end without the network.
+export interface FixtureRepo {
+  repo: string;
+  remotePath: string;
+  cloneRoot: string;
+  mirrorRoot: string;
+  root: string;
+  git: (cwd: string, ...args: string[]) => string;
+  commit: (message: string) => string;
+  tag: (name: string) => void;
+  commitTo: (ref: string, message: string) => string;
+  cleanup: () => Promise<void>;
+}
+
+const FIXTURE_ENV: Readonly<Record<string, string | null>> = {
+  GIT_AUTHOR_NAME: "test",
+  GIT_AUTHOR_EMAIL: "test@example.com",
+  GIT_COMMITTER_NAME: "test",
+  GIT_COMMITTER_EMAIL: "test@example.com",
+  GIT_CONFIG_COUNT: "2",
+  GIT_CONFIG_KEY_1: "protocol.file.allow",
+  GIT_CONFIG_VALUE_1: "always",
+  OPENCODE_REPO_RETRY_ATTEMPTS: "1",
+  OPENCODE_REPO_FETCH_TTL_SECONDS: null,
+  OPENCODE_REPO_OFFLINE: null,
+  OPENCODE_REPO_USE_MIRROR: null,
+};
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, {
+    cwd,
+    encoding: "utf8",
+    env: process.env,
+    stdio: ["ignore", "pipe", "pipe"],
+  }).trim();
+}
+
+function applyEnv(values: Record<string, string | null | undefined>): void {
+  for (const [key, value] of Object.entries(values)) {
+    if (value === null || value === undefined) {
+      Reflect.deleteProperty(process.env, key);
+    } else {
+      process.env[key] = value;
+    }
+  }
+}
+
+export async function createFixtureRepo(): Promise<FixtureRepo> {
+  const root = await mkdtemp(path.join(os.tmpdir(), "opencode-repo-fixture-"));
+  const remotesRoot = path.join(root, "remotes");
+  const remotePath = path.join(remotesRoot, "acme", "widgets.git");
+  const seedPath = path.join(root, "seed");
+  const env: Record<string, string | null> = {
+    ...FIXTURE_ENV,
+    GIT_CONFIG_KEY_0: `url.${pathToFileURL(remotesRoot).href}/.insteadOf`,
+    GIT_CONFIG_VALUE_0: "https://github.com/",
+    OPENCODE_REPO_MIRROR_ROOT: path.join(root, "mirrors"),
+    OPENCODE_REPO_SSH_CONFIG_PATH: path.join(root, "ssh.json"),
+    OPENCODE_REPO_TELEMETRY_PATH: path.join(root, "telemetry.jsonl"),
+    OPENCODE_REPO_TOKENS_PATH: path.join(root, "tokens.json"),
+  };
+  const previousEnv = Object.fromEntries(
+    Object.keys(env).map((key) => [key, process.env[key]])
+  );
+  applyEnv(env);
+
+  await mkdir(remotePath, { recursive: true });
+  git(remotePath, "init", "--quiet", "--bare", "--initial-branch=main");
+  git(root, "clone", "--quiet", remotePath, seedPath);
+  git(seedPath, "checkout", "--quiet", "-b", "main");
+
+  const commit = (message: string): string => {
+    git(seedPath, "add", "--all");
+    git(seedPath, "commit", "--quiet", "--allow-empty", "--message", message);
+    git(seedPath, "push", "--quiet", "origin", "HEAD:main");
+    return git(seedPath, "rev-parse", "HEAD");
+  };
+  const tag = (name: string): void => {
+    git(seedPath, "tag", name);
+    git(seedPath, "push", "--quiet", "origin", `refs/tags/${name}`);
+  };
+  // Commits on top of main and force-pushes to any ref, such as the
+  // refs/pull/<n>/head a host keeps for a pull request.
+  const commitTo = (ref: string, message: string): string => {
+    git(seedPath, "checkout", "--quiet", "--detach", "main");
+    git(seedPath, "commit", "--quiet", "--allow-empty", "--message", message);
+    const sha = git(seedPath, "rev-parse", "HEAD");
+    git(seedPath, "push", "--quiet", "origin", `+HEAD:${ref}`);
+    git(seedPath, "checkout", "--quiet", "main");
+    return sha;
+  };
+  await writeFile(path.join(seedPath, "README.md"), "# widgets\n");
+  commit("initial");
+
+  return {
+    repo: "acme/widgets",
+    remotePath,
+    cloneRoot: path.join(root, "clones"),
+    mirrorRoot: path.join(root, "mirrors"),
+    root,
+    git,
+    commit,
+    tag,
+    commitTo,
+    cleanup: async () => {
+      applyEnv(previousEnv);
+      await rm(root, { force: true, recursive: true });
+    },
+  };
+}
@@ -1,6 +1,22 @@
 import { describe, expect, test } from "bun:test";
+import { execFileSync } from "node:child_process";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
 
-import { createGitFailureError } from "../src/lib/git";
+import {
+  createGitFailureError,
+  findRetryableFailure,
+  getCloneStrategy,
+  parseCommitLog,
+  parseCountObjects,
+  parseNameStatus,
+  parseRefListing,
+  parseSubmoduleConfig,
+  parseSubmoduleStatus,
+  pickRemoteRefSha,
+  withGitEnv,
+} from "../src/lib/git";
 
 describe("createGitFailureError", () => {
   test("maps HTTPS credential prompts to GIT_AUTH", () => {
@@ -18,6 +34,136 @@ describe("createGitFailureError", () => {
     expect(error.details).toContain("allow_ssh=true");
   });
 
+  test("maps rejected SSH keys to SSH_AUTH", () => {
+    const error = createGitFailureError(
+      ["clone", "git@github.com:acme/private.git", "/tmp/private"],
+      "",
+      "git@github.com: Permission denied (publickey).\nfatal: Could not read from remote repository.",
+      false
+    );
+
+    expect(error.code).toBe("SSH_AUTH");
+    expect(error.details).toContain("identity_file");
+  });
+
+  test("maps unknown host keys to SSH_HOST_KEY", () => {
+    const error = createGitFailureError(
+      ["fetch", "--prune", "origin"],
+      "",
+      "No ED25519 host key is known for gitlab.internal and you have requested strict checking.\nHost key verification failed.\nfatal: Could not read from remote repository.",
+      false
+    );
+
+    expect(error.code).toBe("SSH_HOST_KEY");
+    expect(error.details).toContain("known_hosts");
+  });
+
+  test("classifies common remote and local failures", () => {
+    const cases: [string[], string, string][] = [
+      [
+        ["fetch", "origin"],
+        "fatal: unable to access 'https://github.com/acme/app.git/': Could not resolve host: github.com",
+        "GIT_NETWORK",
+      ],
+      [
+        ["clone", "https://git.internal/acme/app.git", "/tmp/app"],
+        "fatal: unable to access 'https://git.internal/acme/app.git/': SSL certificate problem: self-signed certificate",
+        "GIT_TLS",
+      ],
+      [
+        ["ls-remote", "https://github.com/acme/app.git"],
+        "fatal: unable to access 'https://github.com/acme/app.git/': The requested URL returned error: 429",
+        "GIT_RATE_LIMITED",
+      ],
+      [
+        ["fetch", "origin"],
+        "remote: Repository not found.\nfatal: repository 'https://github.com/acme/app.git/' not found",
+        "REPO_NOT_FOUND",
+      ],
+      [
+        ["fetch", "origin"],
+        "error: RPC failed; HTTP 401 curl 22 The requested URL returned error: 401\nfatal: expected flush after ref listing",
+        "GIT_AUTH",
+      ],
+      [
+        ["clone", "https://github.com/acme/app.git", "/tmp/app"],
+        "remote: Permission to acme/app.git denied to octocat.\nfatal: unable to access 'https://github.com/acme/app.git/': The requested URL returned error: 403",
+        "GIT_AUTH",
+      ],
+      [
+        ["fetch", "origin"],
+        "error: RPC failed; HTTP 404 curl 22 The requested URL returned error: 404",
+        "REPO_NOT_FOUND",
+      ],
+      [
+        ["fetch", "origin"],
+        "error: RPC failed; HTTP 502 curl 22 The requested URL returned error: 502",
+        "GIT_NETWORK",
+      ],
+      [
+        ["fetch", "origin"],
+        "error: RPC failed; curl 56 GnuTLS recv error (-9): A TLS packet with unexpected length was received.",
+        "GIT_NETWORK",
+      ],
+      [
+        ["fetch", "origin"],
+        "remote: Access to this repository has been disabled by GitHub Staff.",
+        "REPO_UNAVAILABLE",
+      ],
+      [
+        ["checkout", "main"],
+        "fatal: Unable to create '/tmp/app/.git/index.lock': File exists.",
+        "GIT_LOCKED",
+      ],
+      [
+        ["fetch", "origin"],
+        "error: unable to write file: No space left on device",
+        "DISK_FULL",
+      ],
+      [
+        ["merge", "--ff-only", "origin/main"],
+        "fatal: Not possible to fast-forward, aborting.",
+        "GIT_NON_FAST_FORWARD",
+      ],
+      [
+        ["checkout", "main"],
+        "error: Your local changes to the following files would be overwritten by checkout:\n\tREADME.md",
+        "GIT_CONFLICT",
+      ],
+    ];
+
+    for (const [args, stderr, code] of cases) {
+      expect(createGitFailureError(args, "", stderr, false).code).toBe(code);
+    }
+  });
+
+  test("ignores remote-only patterns for local commands", () => {
+    const error = createGitFailureError(
+      ["log", "--oneline"],
+      "",
+      "fatal: Could not resolve host: github.com",
+      false
+    );
+
+    expect(error.code).toBe("GIT_FAILURE");
+    expect(error.hint.category).toBe("unclassified");
+  });
+
+  test("attaches a machine-readable hint", () => {
+    const error = createGitFailureError(
+      ["fetch", "origin"],
+      "",
+      "fatal: unable to access 'https://github.com/acme/app.git/': Failed to connect to github.com port 443",
+      false
+    );
+
+    expect(error.hint).toEqual({
+      category: "network",
+      retryable: true,
+      suggested_args: { offline: true },
+    });
+  });
+
   test("maps timeouts to GIT_TIMEOUT", () => {
     const error = createGitFailureError(
       ["clone", "https://github.com/acme/private.git", "/tmp/private"],
@@ -31,11 +177,11 @@ describe("createGitFailureError", () => {
     expect(error.details).toContain("timed_out=true");
   });
 
-  test("keeps non-auth failures as GIT_FAILURE", () => {
+  test("keeps unrecognized failures as GIT_FAILURE", () => {
     const error = createGitFailureError(
-      ["checkout", "missing-branch"],
+      ["status", "--porcelain"],
       "",
-      "error: pathspec 'missing-branch' did not match any file(s) known to git",
+      "fatal: bad config line 1 in file .git/config",
       false
     );
 
@@ -43,3 +189,235 @@ describe("createGitFailureError", () => {
     expect(error.message).toBe("git command failed");
   });
 });
+
+describe("findRetryableFailure", () => {
+  const failed = (stderr: string) => ({
+    stdout: "",
+    stderr,
+    exitCode: 128,
+    timedOut: false,
+  });
+
+  test("retries transient remote failures", () => {
+    const error = findRetryableFailure(
+      ["fetch", "origin"],
+      failed(
+        "error: RPC failed; HTTP 503 curl 22 The requested URL returned error: 503"
+      )
+    );
+
+    expect(error?.code).toBe("GIT_NETWORK");
+  });
+
+  test("does not retry authentication or missing repositories", () => {
+    const outputs = [
+      "error: RPC failed; HTTP 401 curl 22 The requested URL returned error: 401",
+      "fatal: unable to access 'https://github.com/acme/app.git/': The requested URL returned error: 403",
+      "error: RPC failed; HTTP 404 curl 22 The requested URL returned error: 404",
+      "remote: Repository not found.\nfatal: repository 'https://github.com/acme/app.git/' not found",
+    ];
+
+    for (const stderr of outputs) {
+      expect(findRetryableFailure(["fetch", "origin"], failed(stderr))).toBe(
+        null
+      );
+    }
+  });
+
+  test("does not retry timeouts or local commands", () => {
+    const network = "fatal: Could not resolve host: github.com";
+
+    expect(
+      findRetryableFailure(["fetch", "origin"], {
+        ...failed(network),
+        timedOut: true,
+      })
+    ).toBe(null);
+    expect(findRetryableFailure(["log"], failed(network))).toBe(null);
+  });
+});
+
+describe("parseCountObjects", () => {
+  test("sums loose, packed and garbage sizes", () => {
+    const output = [
+      "count: 12",
+      "size: 48",
+      "in-pack: 300",
+      "packs: 1",
+      "size-pack: 1024",
+      "prune-packable: 0",
+      "garbage: 1",
+      "size-garbage: 4",
+    ].join("\n");
+
+    expect(parseCountObjects(output)).toBe((48 + 1024 + 4) * 1024);
+  });
+});
+
+describe("parseCommitLog", () => {
+  test("splits unit-separated log fields", () => {
+    const output = [
+      "abc123\x1fAda\x1f2024-05-01T10:00:00+02:00\x1fFix parser",
+      "def456\x1fGrace\x1f2024-04-30T09:00:00+00:00\x1fAdd tests",
+    ].join("\n");
+
+    expect(parseCommitLog(output)).toEqual([
+      {
+        sha: "abc123",
+        author: "Ada",
+        date: "2024-05-01T10:00:00+02:00",
+        subject: "Fix parser",
+      },
+      {
+        sha: "def456",
+        author: "Grace",
+        date: "2024-04-30T09:00:00+00:00",
+        subject: "Add tests",
+      },
+    ]);
+  });
+
+  test("returns an empty list for an empty range", () => {
+    expect(parseCommitLog("")).toEqual([]);
+  });
+});
+
+describe("parseNameStatus", () => {
+  test("maps name-status codes to change kinds", () => {
+    const output = [
+      "A",
+      "src/new.ts",
+      "M",
+      "README.md",
+      "D",
+      "old file.txt",
+      "T",
+      "link",
+    ]
+      .join("\0")
+      .concat("\0");
+
+    expect(parseNameStatus(output)).toEqual([
+      { path: "src/new.ts", status: "added" },
+      { path: "README.md", status: "modified" },
+      { path: "old file.txt", status: "deleted" },
+      { path: "link", status: "modified" },
+    ]);
+  });
+});
+
+describe("pickRemoteRefSha", () => {
+  const output = [
+    "1111111111111111111111111111111111111111\trefs/heads/main",
+    "2222222222222222222222222222222222222222\trefs/tags/v1.0.0",
+    "3333333333333333333333333333333333333333\trefs/tags/v1.0.0^{}",
+  ].join("\n");
+
+  test("prefers branches, then peeled tags", () => {
+    expect(pickRemoteRefSha(output, "main")).toBe(
+      "1111111111111111111111111111111111111111"
+    );
+    expect(pickRemoteRefSha(output, "v1.0.0")).toBe(
+      "3333333333333333333333333333333333333333"
+    );
+  });
+
+  test("returns null when the remote has no matching ref", () => {
+    expect(pickRemoteRefSha(output, "missing")).toBeNull();
+  });
+});
+
+describe("parseRefListing", () => {
+  test("collects branches and peeled tag shas", () => {
+    const output = [
+      "1111111111111111111111111111111111111111\trefs/heads/main",
+      "2222222222222222222222222222222222222222 refs/remotes/origin/HEAD",
+      "2222222222222222222222222222222222222222 refs/remotes/origin/dev",
+      "3333333333333333333333333333333333333333\trefs/tags/v1.0.0",
+      "4444444444444444444444444444444444444444\trefs/tags/v1.0.0^{}",
+      "5555555555555555555555555555555555555555\trefs/tags/v0.9.0",
+    ].join("\n");
+
+    const listing = parseRefListing(output);
+    expect(listing.branches).toEqual(["dev", "main"]);
+    expect(Object.fromEntries(listing.tags)).toEqual({
+      "v1.0.0": "4444444444444444444444444444444444444444",
+      "v0.9.0": "5555555555555555555555555555555555555555",
+    });
+  });
+});
+
+describe("parseSubmoduleConfig", () => {
+  test("pairs path and url entries by submodule name", () => {
+    const output = [
+      "submodule.vendor/lib.path\nvendor/lib",
+      "submodule.vendor/lib.url\nhttps://github.com/acme/lib.git",
+      "submodule.docs.path\ndocs/site",
+      "submodule.docs.url\n../docs.git",
+      "submodule.partial.path\npartial",
+    ]
+      .join("\0")
+      .concat("\0");
+
+    expect(parseSubmoduleConfig(output)).toEqual([
+      {
+        name: "vendor/lib",
+        path: "vendor/lib",
+        url: "https://github.com/acme/lib.git",
+      },
+      { name: "docs", path: "docs/site", url: "../docs.git" },
+    ]);
+  });
+});
+
+describe("parseSubmoduleStatus", () => {
+  test("reads commits and initialization state", () => {
+    const output = [
+      "1111111111111111111111111111111111111111 vendor/lib (v1.0.0)",
+      "-2222222222222222222222222222222222222222 docs/site",
+      "+3333333333333333333333333333333333333333 vendor/lib/deep (heads/main)",
+    ].join("\n");
+
+    expect(parseSubmoduleStatus(output)).toEqual([
+      {
+        path: "vendor/lib",
+        sha: "1111111111111111111111111111111111111111",
+        initialized: true,
+      },
+      {
+        path: "docs/site",
+        sha: "2222222222222222222222222222222222222222",
+        initialized: false,
+      },
+      {
+        path: "vendor/lib/deep",
+        sha: "3333333333333333333333333333333333333333",
+        initialized: true,
+      },
+    ]);
+  });
+});
+
+describe("withGitEnv", () => {
+  test("adds variables to git commands started inside the scope", async () => {
+    const repoPath = await mkdtemp(
+      path.join(os.tmpdir(), "opencode-repo-env-")
+    );
+    try {
+      execFileSync("git", ["init", "--quiet"], { cwd: repoPath });
+      const scoped = await withGitEnv(
+        {
+          GIT_CONFIG_COUNT: "1",
+          GIT_CONFIG_KEY_0: "remote.origin.partialclonefilter",
+          GIT_CONFIG_VALUE_0: "blob:none",
+        },
+        () => getCloneStrategy(repoPath)
+      );
+
+      expect(scoped).toBe("blobless");
+      expect(await getCloneStrategy(repoPath)).toBe("full");
+    } finally {
+      await rm(repoPath, { force: true, recursive: true });
+    }
+  });
+});
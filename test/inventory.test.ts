@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import {
+  findLocalClonePaths,
+  getDirectorySize,
+  removeStagingSiblings,
+  sweepStagingPaths,
+} from "../src/lib/inventory";
+
+let cloneRoot: string;
+
+beforeEach(async () => {
+  cloneRoot = await mkdtemp(path.join(os.tmpdir(), "opencode-repo-inventory-"));
+});
+
+afterEach(async () => {
+  await rm(cloneRoot, { force: true, recursive: true });
+});
+
+describe("findLocalClonePaths", () => {
+  test("finds clones at any depth below host directories", async () => {
+    const shallowClone = path.join(cloneRoot, "github.com", "acme", "widgets");
+    const nestedClone = path.join(
+      cloneRoot,
+      "gitlab.com",
+      "group",
+      "subgroup",
+      "tool"
+    );
+    await mkdir(path.join(shallowClone, ".git"), { recursive: true });
+    await mkdir(path.join(nestedClone, ".git"), { recursive: true });
+    await mkdir(path.join(cloneRoot, "github.com", "acme", "empty"), {
+      recursive: true,
+    });
+
+    expect(await findLocalClonePaths(cloneRoot)).toEqual([
+      shallowClone,
+      nestedClone,
+    ]);
+  });
+
+  test("does not descend into clones", async () => {
+    const clone = path.join(cloneRoot, "github.com", "acme", "widgets");
+    await mkdir(path.join(clone, ".git"), { recursive: true });
+    await mkdir(path.join(clone, "vendor", "nested", ".git"), {
+      recursive: true,
+    });
+
+    expect(await findLocalClonePaths(cloneRoot)).toEqual([clone]);
+  });
+
+  test("returns an empty list for a missing root", async () => {
+    expect(await findLocalClonePaths(path.join(cloneRoot, "missing"))).toEqual(
+      []
+    );
+  });
+});
+
+describe("getDirectorySize", () => {
+  test("sums file sizes recursively", async () => {
+    const target = path.join(cloneRoot, "sized");
+    await mkdir(path.join(target, "nested"), { recursive: true });
+    await writeFile(path.join(target, "a.txt"), "12345");
+    await writeFile(path.join(target, "nested", "b.txt"), "123");
+
+    expect(await getDirectorySize(target)).toBeGreaterThanOrEqual(8);
+  });
+
+  test("skips excluded paths", async () => {
+    const target = path.join(cloneRoot, "sized");
+    await mkdir(path.join(target, "skipped"), { recursive: true });
+    await writeFile(path.join(target, "a.txt"), "12345");
+    await writeFile(path.join(target, "skipped", "b.txt"), "123");
+
+    expect(
+      await getDirectorySize(target, new Set([path.join(target, "skipped")]))
+    ).toBe(5);
+  });
+});
+
+describe("sweepStagingPaths", () => {
+  test("removes staging directories of dead processes only", async () => {
+    const owner = path.join(cloneRoot, "github.com", "acme");
+    const clone = path.join(owner, "widgets");
+    const abandoned = path.join(
+      owner,
+      "widgets.staging-2147483647-1700000000000"
+    );
+    const active = path.join(
+      owner,
+      `widgets.staging-${process.pid}-1700000000000`
+    );
+    await mkdir(path.join(clone, ".git"), { recursive: true });
+    await mkdir(path.join(abandoned, ".git"), { recursive: true });
+    await mkdir(path.join(active, ".git"), { recursive: true });
+
+    expect(await sweepStagingPaths(cloneRoot)).toEqual([abandoned]);
+    expect(await findLocalClonePaths(cloneRoot)).toEqual([clone]);
+  });
+});
+
+describe("removeStagingSiblings", () => {
+  test("removes leftover staging directories next to a clone", async () => {
+    const owner = path.join(cloneRoot, "github.com", "acme");
+    const leftover = path.join(owner, `widgets.staging-${process.pid}-1`);
+    const otherRepo = path.join(owner, `gadgets.staging-${process.pid}-1`);
+    await mkdir(leftover, { recursive: true });
+    await mkdir(otherRepo, { recursive: true });
+
+    await removeStagingSiblings(path.join(owner, "widgets"));
+
+    expect(await readdir(owner)).toEqual([path.basename(otherRepo)]);
+  });
+});
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { findLfsPointerFiles, parseLfsPatterns } from "../src/lib/lfs";
+
+const POINTER = [
+  "version https://git-lfs.github.com/spec/v1",
+  "oid sha256:4d7a214614ab2935c943f9e0ff69d22eadbb8f32b1258daaa5e2ca24d17e2393",
+  "size 12345",
+  "",
+].join("\n");
+
+let repoRoot: string;
+
+beforeEach(async () => {
+  repoRoot = await mkdtemp(path.join(os.tmpdir(), "opencode-repo-lfs-"));
+});
+
+afterEach(async () => {
+  await rm(repoRoot, { force: true, recursive: true });
+});
+
+describe("parseLfsPatterns", () => {
+  test("collects patterns that use the lfs filter", () => {
+    const content = [
+      "# binaries",
+      "*.bin filter=lfs diff=lfs merge=lfs -text",
+      "*.md text",
+      "models/** filter=lfs diff=lfs merge=lfs -text",
+      "",
+    ].join("\n");
+
+    expect(parseLfsPatterns(content)).toEqual(["*.bin", "models/**"]);
+  });
+});
+
+describe("findLfsPointerFiles", () => {
+  test("reports files that still hold pointer text", async () => {
+    await mkdir(path.join(repoRoot, "models"));
+    await writeFile(path.join(repoRoot, "models", "weights.bin"), POINTER);
+    await writeFile(path.join(repoRoot, "data.bin"), "real binary content");
+
+    expect(
+      await findLfsPointerFiles(repoRoot, [
+        "models/weights.bin",
+        "data.bin",
+        "outside-sparse.bin",
+      ])
+    ).toEqual(["models/weights.bin"]);
+  });
+});
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+  access,
+  mkdtemp,
+  readdir,
+  readFile,
+  rm,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { buildLockPath, withRepoLock } from "../src/lib/lock";
+
+let lockRoot: string;
+let target: string;
+
+beforeEach(async () => {
+  lockRoot = await mkdtemp(path.join(os.tmpdir(), "opencode-repo-lock-"));
+  target = path.join(lockRoot, "github.com", "acme", "widgets");
+});
+
+afterEach(async () => {
+  await rm(lockRoot, { force: true, recursive: true });
+});
+
+function lockExists(): Promise<boolean> {
+  return access(buildLockPath(target)).then(
+    () => true,
+    () => false
+  );
+}
+
+function writeLockOwner(pid: number, hostname = os.hostname()) {
+  return writeFile(
+    buildLockPath(target),
+    JSON.stringify({ pid, hostname, acquired_at: new Date().toISOString() })
+  );
+}
+
+describe("withRepoLock", () => {
+  test("holds the lock while the action runs and releases it after", async () => {
+    const owner = await withRepoLock(target, async () =>
+      JSON.parse(await readFile(buildLockPath(target), "utf8"))
+    );
+
+    expect(owner.pid).toBe(process.pid);
+    expect(await lockExists()).toBe(false);
+  });
+
+  test("releases the lock when the action throws", async () => {
+    await expect(
+      withRepoLock(target, () => Promise.reject(new Error("boom")))
+    ).rejects.toThrow("boom");
+    expect(await lockExists()).toBe(false);
+  });
+
+  test("fails with REPO_LOCKED when a live owner holds the lock", async () => {
+    await withRepoLock(target, async () => {
+      await expect(
+        withRepoLock(target, () => Promise.resolve(), { timeoutMs: 150 })
+      ).rejects.toMatchObject({ code: "REPO_LOCKED" });
+    });
+  });
+
+  test("takes over locks left by dead processes", async () => {
+    await withRepoLock(target, () => Promise.resolve());
+    await writeLockOwner(2_147_483_647);
+
+    expect(
+      await withRepoLock(target, () => Promise.resolve("acquired"), {
+        timeoutMs: 0,
+      })
+    ).toBe("acquired");
+  });
+
+  test("takes over old locks even when the owner pid is alive", async () => {
+    await withRepoLock(target, () => Promise.resolve());
+    await writeLockOwner(process.pid);
+    const past = new Date(Date.now() - 60_000);
+    await utimes(buildLockPath(target), past, past);
+
+    expect(
+      await withRepoLock(target, () => Promise.resolve("acquired"), {
+        timeoutMs: 0,
+        staleAgeMs: 1000,
+      })
+    ).toBe("acquired");
+  });
+
+  test("keeps a lock fresh while its action outlasts the stale age", async () => {
+    await withRepoLock(
+      target,
+      async () => {
+        await new Promise((resolve) => setTimeout(resolve, 600));
+        await expect(
+          withRepoLock(target, () => Promise.resolve(), {
+            timeoutMs: 0,
+            staleAgeMs: 300,
+          })
+        ).rejects.toMatchObject({ code: "REPO_LOCKED" });
+      },
+      { staleAgeMs: 300 }
+    );
+  });
+
+  test("leaves no moved-aside files after a takeover", async () => {
+    await withRepoLock(target, () => Promise.resolve());
+    await writeLockOwner(2_147_483_647);
+    await withRepoLock(target, () => Promise.resolve(), { timeoutMs: 0 });
+
+    expect(await readdir(path.dirname(target))).toEqual([]);
+  });
+
+  test("takes over locks older than the stale age", async () => {
+    await withRepoLock(target, () => Promise.resolve());
+    await writeLockOwner(process.pid, "other-host");
+    const past = new Date(Date.now() - 60_000);
+    await utimes(buildLockPath(target), past, past);
+
+    expect(
+      await withRepoLock(target, () => Promise.resolve("acquired"), {
+        timeoutMs: 0,
+        staleAgeMs: 1000,
+      })
+    ).toBe("acquired");
+  });
+});
@@ -1,6 +1,11 @@
 import { describe, expect, test } from "bun:test";
 
-import { buildRepoPath } from "../src/lib/paths";
+import {
+  buildMirrorPath,
+  buildRepoPath,
+  buildWorktreePath,
+  removeRepoPath,
+} from "../src/lib/paths";
 import type { ParsedRepoUrl } from "../src/lib/types";
 
 describe("buildRepoPath", () => {
@@ -17,3 +22,49 @@ describe("buildRepoPath", () => {
     expect(output).toBe("/tmp/opencode-repos/github.com/anomalyco/opencode");
   });
 });
+
+describe("buildMirrorPath", () => {
+  test("keys mirrors by the case-insensitive repository key", () => {
+    const parsed: ParsedRepoUrl = {
+      raw: "https://github.com/Acme/Widgets",
+      host: "github.com",
+      pathSegments: ["Acme", "Widgets"],
+      canonicalUrl: "https://github.com/Acme/Widgets.git",
+      key: "github.com/acme/widgets",
+    };
+
+    expect(buildMirrorPath("/tmp/opencode-mirrors", parsed)).toBe(
+      "/tmp/opencode-mirrors/github.com/acme/widgets.git"
+    );
+  });
+});
+
+describe("buildWorktreePath", () => {
+  test("places worktrees next to the main clone", () => {
+    expect(
+      buildWorktreePath("/tmp/opencode-repos/github.com/acme/widgets", "v1.2.0")
+    ).toBe("/tmp/opencode-repos/github.com/acme/widgets@v1.2.0");
+  });
+
+  test("keeps sanitized slash refs distinct from literal names", () => {
+    const repoPath = "/tmp/opencode-repos/github.com/acme/widgets";
+    const slashRef = buildWorktreePath(repoPath, "feature/login");
+    const dashRef = buildWorktreePath(repoPath, "feature-login");
+    expect(slashRef).toStartWith(`${repoPath}@feature-login-`);
+    expect(dashRef).toBe(`${repoPath}@feature-login`);
+  });
+});
+
+describe("removeRepoPath", () => {
+  test("refuses to remove paths outside the clone root", async () => {
+    await expect(
+      removeRepoPath("/tmp/opencode-repos", "/tmp/elsewhere/repo")
+    ).rejects.toThrow("Resolved repository path escaped clone root");
+  });
+
+  test("refuses to remove the clone root itself", async () => {
+    await expect(
+      removeRepoPath("/tmp/opencode-repos", "/tmp/opencode-repos")
+    ).rejects.toThrow("Refusing to remove the clone root itself");
+  });
+});
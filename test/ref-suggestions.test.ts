@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+
+import { editDistance, suggestRefNames } from "../src/lib/ref-suggestions";
+
+const REFS = [
+  "main",
+  "develop",
+  "feature/login",
+  "feature/logout",
+  "release/2.x",
+  "v1.0.0",
+  "v2.1.0",
+];
+
+describe("editDistance", () => {
+  test("counts insertions, deletions, and substitutions", () => {
+    expect(editDistance("main", "main")).toBe(0);
+    expect(editDistance("mian", "main")).toBe(2);
+    expect(editDistance("develp", "develop")).toBe(1);
+    expect(editDistance("", "abc")).toBe(3);
+  });
+});
+
+describe("suggestRefNames", () => {
+  test("suggests names within a small edit distance", () => {
+    expect(suggestRefNames("mian", REFS)).toEqual(["main"]);
+    expect(suggestRefNames("devlop", REFS)).toEqual(["develop"]);
+  });
+
+  test("ranks prefix matches ahead of typos", () => {
+    expect(suggestRefNames("feature/log", REFS)).toEqual([
+      "feature/login",
+      "feature/logout",
+    ]);
+  });
+
+  test("matches case-insensitively and by substring", () => {
+    expect(suggestRefNames("LOGIN", REFS)).toEqual(["feature/login"]);
+  });
+
+  test("returns nothing when no name is close", () => {
+    expect(suggestRefNames("completely-different", REFS)).toEqual([]);
+  });
+});
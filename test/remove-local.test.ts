@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { execFileSync } from "node:child_process";
+import { access, mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { repoListLocal } from "../src/tools/repo-list-local";
+import { repoRemoveLocal } from "../src/tools/repo-remove-local";
+
+let cloneRoot: string;
+let clonePath: string;
+let mirrorRoot: string;
+const previousMirrorRoot = process.env.OPENCODE_REPO_MIRROR_ROOT;
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync(
+    "git",
+    ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args],
+    { cwd, encoding: "utf8", stdio: ["ignore", "pipe", "pipe"] }
+  ).trim();
+}
+
+function pathExists(target: string): Promise<boolean> {
+  return access(target).then(
+    () => true,
+    () => false
+  );
+}
+
+beforeEach(async () => {
+  cloneRoot = await mkdtemp(path.join(os.tmpdir(), "opencode-repo-remove-"));
+  mirrorRoot = await mkdtemp(path.join(os.tmpdir(), "opencode-repo-mirrors-"));
+  process.env.OPENCODE_REPO_MIRROR_ROOT = mirrorRoot;
+  clonePath = path.join(cloneRoot, "github.com", "acme", "widgets");
+  await mkdir(clonePath, { recursive: true });
+  git(clonePath, "init", "--quiet", "--initial-branch=main");
+  git(clonePath, "commit", "--quiet", "--allow-empty", "--message=initial");
+  git(clonePath, "remote", "add", "origin", "https://github.com/acme/widgets");
+  git(clonePath, "update-ref", "refs/remotes/origin/main", "HEAD");
+});
+
+afterEach(async () => {
+  await rm(cloneRoot, { force: true, recursive: true });
+  await rm(mirrorRoot, { force: true, recursive: true });
+  if (previousMirrorRoot === undefined) {
+    Reflect.deleteProperty(process.env, "OPENCODE_REPO_MIRROR_ROOT");
+  } else {
+    process.env.OPENCODE_REPO_MIRROR_ROOT = previousMirrorRoot;
+  }
+});
+
+async function keepConflictStash(): Promise<void> {
+  await writeFile(path.join(clonePath, "notes.txt"), "local work\n");
+  git(
+    clonePath,
+    "stash",
+    "push",
+    "--include-untracked",
+    "--message",
+    "opencode-repo-local ff-stash 2026-01-01T00:00:00.000Z"
+  );
+}
+
+describe("repoRemoveLocal", () => {
+  test("removes a clean clone", async () => {
+    const result = await repoRemoveLocal({
+      repo: "acme/widgets",
+      clone_root: cloneRoot,
+    });
+
+    expect(result.removed.map((entry) => entry.local_path)).toEqual([
+      clonePath,
+    ]);
+    expect(await pathExists(clonePath)).toBe(false);
+  });
+
+  test("refuses to remove a clone holding a kept ff-stash", async () => {
+    await keepConflictStash();
+
+    await expect(
+      repoRemoveLocal({ repo: "acme/widgets", clone_root: cloneRoot })
+    ).rejects.toMatchObject({ code: "STASHED_CHANGES" });
+    expect(await pathExists(clonePath)).toBe(true);
+  });
+
+  test("skips clones holding stashes when pruning", async () => {
+    await keepConflictStash();
+
+    const result = await repoRemoveLocal({
+      clone_root: cloneRoot,
+      max_total_bytes: 0,
+    });
+
+    expect(result.removed).toEqual([]);
+    expect(result.skipped).toEqual([
+      {
+        repo_url: "https://github.com/acme/widgets.git",
+        local_path: clonePath,
+        reason: "stashed_changes",
+      },
+    ]);
+    expect(await pathExists(clonePath)).toBe(true);
+  });
+
+  test("prunes mirrors only when asked to", async () => {
+    const mirrorPath = path.join(
+      mirrorRoot,
+      "github.com",
+      "acme",
+      "widgets.git"
+    );
+    await mkdir(mirrorPath, { recursive: true });
+    git(mirrorPath, "init", "--quiet", "--bare");
+    git(
+      mirrorPath,
+      "remote",
+      "add",
+      "origin",
+      "https://github.com/acme/widgets"
+    );
+
+    const clonesOnly = await repoRemoveLocal({
+      clone_root: cloneRoot,
+      max_total_bytes: 0,
+    });
+    expect(clonesOnly.removed.map((entry) => entry.local_path)).toEqual([
+      clonePath,
+    ]);
+    expect(clonesOnly.total_bytes_after).toBe(0);
+    expect(await pathExists(mirrorPath)).toBe(true);
+
+    const result = await repoRemoveLocal({
+      clone_root: cloneRoot,
+      max_total_bytes: 0,
+      prune_mirrors: true,
+    });
+    expect(result.removed.map((entry) => entry.local_path)).toEqual([
+      mirrorPath,
+    ]);
+    expect(result.total_bytes_before).toBe(0);
+    expect(await pathExists(mirrorPath)).toBe(false);
+    expect(await pathExists(path.join(mirrorRoot, "github.com"))).toBe(false);
+  });
+
+  test("lists and skips a clone git cannot read", async () => {
+    const brokenPath = path.join(cloneRoot, "github.com", "acme", "gadgets");
+    await mkdir(brokenPath, { recursive: true });
+    git(brokenPath, "init", "--quiet", "--initial-branch=main");
+    git(brokenPath, "commit", "--quiet", "--allow-empty", "--message=initial");
+    git(
+      brokenPath,
+      "remote",
+      "add",
+      "origin",
+      "https://github.com/acme/gadgets"
+    );
+    await writeFile(path.join(brokenPath, ".git", "index"), "corrupt");
+
+    const listed = await repoListLocal({ clone_root: cloneRoot });
+    const broken = listed.repos.find(
+      (entry) => entry.local_path === brokenPath
+    );
+    expect(broken?.error).toContain("index");
+    expect(
+      listed.repos.find((entry) => entry.local_path === clonePath)?.error
+    ).toBeNull();
+
+    const result = await repoRemoveLocal({
+      clone_root: cloneRoot,
+      max_total_bytes: 0,
+    });
+    expect(result.removed.map((entry) => entry.local_path)).toEqual([
+      clonePath,
+    ]);
+    expect(result.skipped).toEqual([
+      {
+        repo_url: "https://github.com/acme/gadgets.git",
+        local_path: brokenPath,
+        reason: "unreadable",
+      },
+    ]);
+    expect(await pathExists(brokenPath)).toBe(true);
+  });
+
+  test("rejects prune_mirrors outside prune mode", async () => {
+    await expect(
+      repoRemoveLocal({ repo: "acme/widgets", prune_mirrors: true })
+    ).rejects.toThrow("prune_mirrors requires");
+  });
+});
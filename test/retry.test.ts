@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  computeRetryDelayMs,
+  observeRetries,
+  type RetryAttempt,
+  reportRetry,
+  resolveRetryPolicy,
+} from "../src/lib/retry";
+
+describe("resolveRetryPolicy", () => {
+  test("uses defaults when variables are unset or invalid", () => {
+    expect(resolveRetryPolicy({})).toEqual({
+      maxAttempts: 3,
+      baseDelayMs: 1000,
+      jitter: 0.2,
+    });
+    expect(
+      resolveRetryPolicy({
+        OPENCODE_REPO_RETRY_ATTEMPTS: "0",
+        OPENCODE_REPO_RETRY_BASE_DELAY_MS: "-5",
+        OPENCODE_REPO_RETRY_JITTER: "2",
+      })
+    ).toEqual({ maxAttempts: 3, baseDelayMs: 1000, jitter: 0.2 });
+  });
+
+  test("reads overrides from the environment", () => {
+    expect(
+      resolveRetryPolicy({
+        OPENCODE_REPO_RETRY_ATTEMPTS: "1",
+        OPENCODE_REPO_RETRY_BASE_DELAY_MS: "250",
+        OPENCODE_REPO_RETRY_JITTER: "0",
+      })
+    ).toEqual({ maxAttempts: 1, baseDelayMs: 250, jitter: 0 });
+  });
+});
+
+describe("computeRetryDelayMs", () => {
+  const policy = { maxAttempts: 5, baseDelayMs: 1000, jitter: 0.5 };
+
+  test("doubles the delay for each retry", () => {
+    const noJitter = () => 0;
+    expect(computeRetryDelayMs(2, policy, noJitter)).toBe(1000);
+    expect(computeRetryDelayMs(3, policy, noJitter)).toBe(2000);
+    expect(computeRetryDelayMs(4, policy, noJitter)).toBe(4000);
+  });
+
+  test("adds jitter and caps the delay", () => {
+    expect(computeRetryDelayMs(2, policy, () => 1)).toBe(1500);
+    expect(computeRetryDelayMs(20, policy, () => 0)).toBe(30_000);
+  });
+});
+
+describe("observeRetries", () => {
+  test("notifies nested observers", async () => {
+    const outer: RetryAttempt[] = [];
+    const inner: RetryAttempt[] = [];
+    const attempt = {
+      command: "fetch",
+      attempt: 2,
+      code: "GIT_NETWORK",
+      delayMs: 10,
+    };
+
+    await observeRetries(
+      (retry) => outer.push(retry),
+      () =>
+        observeRetries(
+          (retry) => inner.push(retry),
+          async () => {
+            await Promise.resolve();
+            reportRetry(attempt);
+          }
+        )
+    );
+    reportRetry(attempt);
+
+    expect(outer).toEqual([attempt]);
+    expect(inner).toEqual([attempt]);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, test } from "bun:test";
+
+import { normalizeSparseRequest } from "../src/lib/sparse";
+
+describe("normalizeSparseRequest", () => {
+  test("returns undefined when no sparse args are provided", () => {
+    expect(normalizeSparseRequest(undefined, undefined)).toBeUndefined();
+  });
+
+  test("normalizes cone paths", () => {
+    expect(
+      normalizeSparseRequest(["/packages/core/", " docs "], undefined)
+    ).toEqual({ cone: true, patterns: ["packages/core", "docs"] });
+  });
+
+  test("keeps no-cone patterns verbatim", () => {
+    expect(normalizeSparseRequest(undefined, ["/*.md", "!/docs/"])).toEqual({
+      cone: false,
+      patterns: ["/*.md", "!/docs/"],
+    });
+  });
+
+  test("treats an empty list as a request to disable sparse checkout", () => {
+    expect(normalizeSparseRequest([], undefined)).toBe("disable");
+  });
+
+  test("rejects cone paths that escape the repository", () => {
+    expect(() => normalizeSparseRequest(["../other"], undefined)).toThrow();
+  });
+
+  test("rejects combining cone paths and patterns", () => {
+    expect(() => normalizeSparseRequest(["src"], ["/*.md"])).toThrow();
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, test } from "bun:test";
+import os from "node:os";
+import path from "node:path";
+
+import { parseSshConfigFile, renderSshConfig } from "../src/lib/ssh";
+
+describe("parseSshConfigFile", () => {
+  test("resolves identity and known_hosts paths per host", () => {
+    const hosts = parseSshConfigFile(
+      JSON.stringify({
+        "GitLab.internal": {
+          identity_file: "keys/deploy",
+          known_hosts: "~/.ssh/ci_known_hosts",
+          port: 2222,
+        },
+      }),
+      "/etc/opencode/ssh.json"
+    );
+
+    expect(hosts).toEqual([
+      {
+        host: "gitlab.internal",
+        identityFile: "/etc/opencode/keys/deploy",
+        knownHostsFile: path.join(os.homedir(), ".ssh/ci_known_hosts"),
+        port: 2222,
+      },
+    ]);
+  });
+
+  test("rejects invalid ports and non-object files", () => {
+    expect(() =>
+      parseSshConfigFile('{"github.com":{"port":"22"}}', "/tmp/ssh.json")
+    ).toThrow("Invalid SSH configuration for host: github.com");
+    expect(() => parseSshConfigFile("[]", "/tmp/ssh.json")).toThrow();
+  });
+});
+
+describe("renderSshConfig", () => {
+  test("writes host blocks before including the user's configuration", () => {
+    const config = renderSshConfig([
+      {
+        host: "github.com",
+        identityFile: "/keys/deploy key",
+        knownHostsFile: "/keys/known_hosts",
+      },
+      { host: "gitlab.internal", port: 2222 },
+    ]);
+
+    expect(config).toContain(
+      [
+        "Host github.com",
+        '  IdentityFile "/keys/deploy key"',
+        "  IdentitiesOnly yes",
+        '  UserKnownHostsFile "/keys/known_hosts"',
+      ].join("\n")
+    );
+    expect(config).toContain("Host gitlab.internal\n  Port 2222\n");
+    expect(
+      config.trimEnd().endsWith("Include ~/.ssh/config /etc/ssh/ssh_config")
+    ).toBe(true);
+  });
+});
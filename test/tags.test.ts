@@ -0,0 +1,91 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  parseTagSelector,
+  parseTagVersion,
+  resolveTagSelector,
+} from "../src/lib/tags";
+
+const TAGS = [
+  "v1.4.0",
+  "v1.4.7",
+  "v1.5.0",
+  "v3.1.9",
+  "v3.2.0",
+  "v3.4.1",
+  "v4.0.0-rc.1",
+  "v4.0.0-rc.2",
+  "pkg@1.2.3",
+  "pkg@1.9.0",
+  "pkg@2.0.0",
+  "nightly",
+];
+
+describe("parseTagVersion", () => {
+  test("splits v and monorepo prefixes from the version", () => {
+    expect(parseTagVersion("v1.2.3")).toMatchObject({
+      prefix: "",
+      major: 1,
+      minor: 2,
+      patch: 3,
+    });
+    expect(parseTagVersion("@scope/pkg@2.0.0-beta.1")).toMatchObject({
+      prefix: "@scope/pkg@",
+      major: 2,
+      prerelease: ["beta", "1"],
+    });
+  });
+
+  test("ignores tags that are not versions", () => {
+    expect(parseTagVersion("nightly")).toBeNull();
+    expect(parseTagVersion("build1.2")).toBeNull();
+  });
+});
+
+describe("parseTagSelector", () => {
+  test("leaves exact refs alone", () => {
+    expect(parseTagSelector("main")).toBeNull();
+    expect(parseTagSelector("v1.2.3")).toBeNull();
+    expect(parseTagSelector("1.2.3")).toBeNull();
+  });
+
+  test("recognizes keywords and ranges", () => {
+    expect(parseTagSelector("latest-release")).toMatchObject({
+      kind: "latest",
+      includePrerelease: false,
+    });
+    expect(parseTagSelector("pkg@^1.2")).toMatchObject({
+      kind: "range",
+      prefix: "pkg@",
+    });
+  });
+});
+
+describe("resolveTagSelector", () => {
+  test("picks the highest tag inside a range", () => {
+    expect(resolveTagSelector("^3.2", TAGS)).toBe("v3.4.1");
+    expect(resolveTagSelector("~1.4.0", TAGS)).toBe("v1.4.7");
+    expect(resolveTagSelector("3.x", TAGS)).toBe("v3.4.1");
+    expect(resolveTagSelector("pkg@^1.2", TAGS)).toBe("pkg@1.9.0");
+  });
+
+  test("separates latest releases from prereleases", () => {
+    expect(resolveTagSelector("latest-release", TAGS)).toBe("v3.4.1");
+    expect(resolveTagSelector("latest-tag", TAGS)).toBe("v4.0.0-rc.2");
+    expect(resolveTagSelector("pkg@latest-release", TAGS)).toBe("pkg@2.0.0");
+  });
+
+  test("applies caret rules to zero major versions", () => {
+    expect(resolveTagSelector("^0.2", ["v0.2.1", "v0.3.0"])).toBe("v0.2.1");
+  });
+
+  test("returns null for refs that are not selectors", () => {
+    expect(resolveTagSelector("main", TAGS)).toBeNull();
+  });
+
+  test("throws REF_NOT_FOUND when nothing matches", () => {
+    expect(() => resolveTagSelector("^9", TAGS)).toThrow(
+      "No tag matches ref selector: ^9"
+    );
+  });
+});
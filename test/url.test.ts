@@ -1,6 +1,6 @@
 import { describe, expect, test } from "bun:test";
 
-import { parseRepoUrl } from "../src/lib/url";
+import { parseRepoUrl, splitRefPath } from "../src/lib/url";
 
 describe("parseRepoUrl", () => {
   test("parses https repository URLs", () => {
@@ -81,6 +81,53 @@ describe("parseRepoUrl", () => {
     );
   });
 
+  test("captures ref and subpath from github tree URLs", () => {
+    const parsed = parseRepoUrl(
+      "https://github.com/anomalyco/opencode/tree/v2.1.0/src/core",
+      false
+    );
+    expect(parsed.ref).toBe("v2.1.0");
+    expect(parsed.subpath).toBe("src/core");
+    expect(parsed.refPathSegments).toEqual(["v2.1.0", "src", "core"]);
+  });
+
+  test("captures ref and file path from github blob URLs", () => {
+    const parsed = parseRepoUrl(
+      "https://github.com/anomalyco/opencode/blob/main/config.git",
+      false
+    );
+    expect(parsed.pathSegments).toEqual(["anomalyco", "opencode"]);
+    expect(parsed.ref).toBe("main");
+    expect(parsed.subpath).toBe("config.git");
+  });
+
+  test("captures sha from github commit URLs", () => {
+    const parsed = parseRepoUrl(
+      "https://github.com/anomalyco/opencode/commit/0123abc#diff",
+      false
+    );
+    expect(parsed.ref).toBe("0123abc");
+    expect(parsed.subpath).toBeUndefined();
+    expect(parsed.refPathSegments).toEqual(["0123abc"]);
+  });
+
+  test("decodes percent-encoded ref segments", () => {
+    const parsed = parseRepoUrl(
+      "https://github.com/anomalyco/opencode/tree/release%2B1",
+      false
+    );
+    expect(parsed.ref).toBe("release+1");
+  });
+
+  test("does not capture a ref for non-ref github web URLs", () => {
+    const parsed = parseRepoUrl(
+      "https://github.com/anomalyco/opencode/issues/123",
+      false
+    );
+    expect(parsed.ref).toBeUndefined();
+    expect(parsed.refPathSegments).toBeUndefined();
+  });
+
   test("normalizes https URL without .git suffix", () => {
     const parsed = parseRepoUrl("https://github.com/anomalyco/opencode", false);
     expect(parsed.canonicalUrl).toBe(
@@ -95,6 +142,107 @@ describe("parseRepoUrl", () => {
     expect(parsed.canonicalUrl).toBe("https://gitlab.com/acme/widgets.git");
   });
 
+  test("strips gitlab web suffixes while keeping nested subgroups", () => {
+    const parsed = parseRepoUrl(
+      "https://gitlab.internal/platform/tools/cli/-/tree/release/2.x/src",
+      false
+    );
+    expect(parsed.host).toBe("gitlab.internal");
+    expect(parsed.pathSegments).toEqual(["platform", "tools", "cli"]);
+    expect(parsed.canonicalUrl).toBe(
+      "https://gitlab.internal/platform/tools/cli.git"
+    );
+    expect(parsed.refPathSegments).toEqual(["release", "2.x", "src"]);
+  });
+
+  test("keeps gitlab subgroup paths without web suffixes", () => {
+    const parsed = parseRepoUrl("gitlab.com/acme/backend/api", false);
+    expect(parsed.pathSegments).toEqual(["acme", "backend", "api"]);
+    expect(parsed.ref).toBeUndefined();
+  });
+
+  test("strips gitlab merge request suffixes without capturing a ref", () => {
+    const parsed = parseRepoUrl(
+      "https://gitlab.com/acme/backend/api/-/merge_requests/45",
+      false
+    );
+    expect(parsed.pathSegments).toEqual(["acme", "backend", "api"]);
+    expect(parsed.ref).toBeUndefined();
+    expect(parsed.changeRequest).toEqual({ kind: "merge_request", number: 45 });
+  });
+
+  test("captures pull request numbers from github URLs", () => {
+    const parsed = parseRepoUrl(
+      "https://github.com/acme/widgets/pull/123/files",
+      false
+    );
+    expect(parsed.pathSegments).toEqual(["acme", "widgets"]);
+    expect(parsed.ref).toBeUndefined();
+    expect(parsed.changeRequest).toEqual({ kind: "pull_request", number: 123 });
+  });
+
+  test("normalizes bitbucket src URLs", () => {
+    const parsed = parseRepoUrl(
+      "https://bitbucket.org/acme/widgets/src/main/lib/index.ts",
+      false
+    );
+    expect(parsed.pathSegments).toEqual(["acme", "widgets"]);
+    expect(parsed.canonicalUrl).toBe("https://bitbucket.org/acme/widgets.git");
+    expect(parsed.ref).toBe("main");
+    expect(parsed.subpath).toBe("lib/index.ts");
+  });
+
+  test("normalizes azure devops https URLs", () => {
+    const parsed = parseRepoUrl(
+      "https://acme@dev.azure.com/acme/Platform%20Team/_git/widgets",
+      false
+    );
+    expect(parsed.host).toBe("dev.azure.com");
+    expect(parsed.pathSegments).toEqual(["acme", "Platform Team", "widgets"]);
+    expect(parsed.canonicalUrl).toBe(
+      "https://dev.azure.com/acme/Platform%20Team/_git/widgets"
+    );
+  });
+
+  test("captures azure devops version and path query", () => {
+    const parsed = parseRepoUrl(
+      "https://dev.azure.com/acme/platform/_git/widgets?path=/src/app.ts&version=GBfeature/login",
+      false
+    );
+    expect(parsed.refPathSegments).toEqual([
+      "feature",
+      "login",
+      "src",
+      "app.ts",
+    ]);
+  });
+
+  test("normalizes legacy visualstudio.com URLs to dev.azure.com", () => {
+    const parsed = parseRepoUrl(
+      "https://acme.visualstudio.com/DefaultCollection/platform/_git/widgets",
+      false
+    );
+    expect(parsed.key).toBe("dev.azure.com/acme/platform/widgets");
+    expect(parsed.canonicalUrl).toBe(
+      "https://dev.azure.com/acme/platform/_git/widgets"
+    );
+  });
+
+  test("parses azure devops ssh URLs to the same key", () => {
+    const parsed = parseRepoUrl(
+      "git@ssh.dev.azure.com:v3/acme/platform/widgets",
+      true
+    );
+    expect(parsed.key).toBe("dev.azure.com/acme/platform/widgets");
+    expect(parsed.canonicalUrl).toBe(
+      "git@ssh.dev.azure.com:v3/acme/platform/widgets"
+    );
+  });
+
+  test("rejects azure devops URLs without a repository", () => {
+    expect(() => parseRepoUrl("https://dev.azure.com/acme", false)).toThrow();
+  });
+
   test("rejects ssh repository URLs when disabled", () => {
     expect(() =>
       parseRepoUrl("git@github.com:anomalyco/opencode.git", false)
@@ -127,3 +275,18 @@ describe("parseRepoUrl", () => {
     ).toThrow();
   });
 });
+
+describe("splitRefPath", () => {
+  test("splits slash-containing refs by segment count", () => {
+    expect(splitRefPath(["feature", "nested", "src", "core"], 2)).toEqual({
+      ref: "feature/nested",
+      subpath: "src/core",
+    });
+  });
+
+  test("omits subpath when every segment belongs to the ref", () => {
+    expect(splitRefPath(["feature", "nested"], 2)).toEqual({
+      ref: "feature/nested",
+    });
+  });
+});